@@ -0,0 +1,196 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import readdirRecursive from "recursive-readdir";
+import { createGraphSnapshot } from "../src/Export/GraphSnapshot";
+import { LayeredLayoutEngine } from "../src/Layout/LayeredLayoutEngine";
+import { getAllNodes } from "../src/NodeGraph";
+import { GitLogNodeProvider } from "../src/NodeProviders/GitLogNodeProvider";
+import { refFromFullName } from "../src/NodeProviders/GitRefs";
+
+/** What the snapshot tool was asked to do, from its command-line arguments */
+interface SnapshotToolOptions {
+  /** Directory of the repository, or anywhere in its working tree */
+  Repo: string;
+  /** Path of the snapshot file to write */
+  Out: string;
+  /** Short names of the refs whose history is included, with `*` wildcards. Empty for every ref. */
+  Refs: string[];
+  MaxCount: number | null;
+  /** Only commits made since (or until) this date are included. Anything `git log --since` understands works. */
+  Since: string | null;
+  Until: string | null;
+  /** Whether node positions from the layered layout are saved, so that the graph needn't be laid out when loaded */
+  Positions: boolean;
+  /** Directory to write a static site to, with the snapshot embedded, or null to only write the snapshot */
+  Site: string | null;
+  /** Directory of the built app that the static site is copied from */
+  App: string;
+}
+
+/** Thrown for command-line arguments that don't make sense, after which the usage is shown */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const DEFAULT_OPTIONS: SnapshotToolOptions = {
+  Repo: ".",
+  Out: "git3d.json",
+  Refs: [],
+  MaxCount: null,
+  Since: null,
+  Until: null,
+  Positions: true,
+  Site: null,
+  App: "dist",
+};
+
+const USAGE = `Builds a git3d graph snapshot of a local repository.
+
+Usage: npm run snapshot -- [options]
+
+Options:
+  --repo <dir>         Repository to read (default: ${DEFAULT_OPTIONS.Repo})
+  --out <file>         Snapshot file to write (default: ${DEFAULT_OPTIONS.Out})
+  --ref <pattern>      Only include the history of refs whose short names match, e.g. "main" or "release/*".
+                       Repeat to include more refs. Default: every ref.
+  --max-count <n>      Only include the newest n commits
+  --since <date>       Only include commits made since the date, e.g. "2021-01-01" or "1 year ago"
+  --until <date>       Only include commits made until the date
+  --no-positions       Don't save the layout, so that the app lays out the graph itself
+  --site <dir>         Also write a static site to the directory, which shows the snapshot when opened
+  --app <dir>          Built app to copy into the site (default: ${DEFAULT_OPTIONS.App}).
+                       Build it first with: NODE_ENV=production npm run build
+  --help               Show this help`;
+
+/** Name of the element in the static site's page that holds the snapshot, which the app loads on startup */
+const SNAPSHOT_ELEMENT_CLASS = "js-graph-snapshot";
+/** Build outputs that the site doesn't need, like the type declarations that the TypeScript build emits */
+const SITE_IGNORED_FILES = ["*.d.ts", "*.d.ts.map", "*.tsbuildinfo"];
+/** Lets `git log` output a large repository's history in one go */
+const MAX_GIT_OUTPUT_BYTES = 1024 * 1024 * 1024;
+
+function parseArgs(args: string[]): SnapshotToolOptions {
+  const options = { ...DEFAULT_OPTIONS, Refs: [] as string[] };
+  for (let a = 0; a < args.length; ++a) {
+    const arg = args[a];
+    const value = () => {
+      if (a + 1 >= args.length) throw new UsageError(`${arg} needs a value`);
+      return args[++a];
+    };
+    switch (arg) {
+      case "--repo":
+        options.Repo = value();
+        break;
+      case "--out":
+        options.Out = value();
+        break;
+      case "--ref":
+        options.Refs.push(value());
+        break;
+      case "--max-count": {
+        const maxCount = Number(value());
+        if (!Number.isInteger(maxCount) || maxCount < 1) throw new UsageError("--max-count must be a positive integer");
+        options.MaxCount = maxCount;
+        break;
+      }
+      case "--since":
+        options.Since = value();
+        break;
+      case "--until":
+        options.Until = value();
+        break;
+      case "--no-positions":
+        options.Positions = false;
+        break;
+      case "--site":
+        options.Site = value();
+        break;
+      case "--app":
+        options.App = value();
+        break;
+      default:
+        throw new UsageError(`Unknown option "${arg}"`);
+    }
+  }
+  return options;
+}
+
+/** @returns The full names of the refs whose short names match any of the patterns, plus HEAD if it matches */
+function findRefs(repo: string, patterns: string[]): string[] {
+  const regexes = patterns.map(
+    (pattern) => new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`)
+  );
+  const fullNames = git(repo, ["for-each-ref", "--format=%(refname)"]).split("\n").filter((x) => x !== "");
+  return ["HEAD", ...fullNames].filter((fullName) => {
+    const ref = refFromFullName(fullName);
+    return ref && regexes.some((x) => x.test(ref.Name));
+  });
+}
+
+/** @returns The output of `git log` for the requested commits, in the format that {@link GitLogNodeProvider} parses */
+function readLog(options: SnapshotToolOptions): string {
+  const revisions = options.Refs.length > 0 ? findRefs(options.Repo, options.Refs) : ["--all"];
+  if (revisions.length === 0) throw new UsageError(`No refs match ${options.Refs.join(", ")}`);
+
+  const args = ["log", "--decorate=full", "--shortstat", `--format=${GitLogNodeProvider.FORMAT}`];
+  if (options.MaxCount !== null) args.push(`--max-count=${options.MaxCount}`);
+  if (options.Since !== null) args.push(`--since=${options.Since}`);
+  if (options.Until !== null) args.push(`--until=${options.Until}`);
+  return git(options.Repo, [...args, ...revisions, "--"]); // "--" so that refs aren't mistaken for paths
+}
+
+function git(repo: string, args: string[]): string {
+  return execFileSync("git", ["-C", repo, ...args], { encoding: "utf8", maxBuffer: MAX_GIT_OUTPUT_BYTES });
+}
+
+/** Copies the built app to the site directory, with the snapshot embedded in its page */
+async function writeSiteAsync(options: SnapshotToolOptions, snapshotJson: string): Promise<void> {
+  const appIndex = path.join(options.App, "index.html");
+  if (!fs.existsSync(appIndex)) throw new UsageError(`${appIndex} is missing. Build the app before writing a site.`);
+
+  const site = options.Site!;
+  for (const file of await readdirRecursive(options.App, SITE_IGNORED_FILES)) {
+    const destination = path.join(site, path.relative(options.App, file));
+    await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+    await fs.promises.copyFile(file, destination);
+  }
+
+  // Escape "<" so that nothing in the snapshot (like a commit subject) can end the script element
+  const html = await fs.promises.readFile(appIndex, "utf8");
+  const script =
+    `<script type="application/json" class="${SNAPSHOT_ELEMENT_CLASS}">` +
+    `${snapshotJson.replace(/</g, "\\u003c")}</script>`;
+  await fs.promises.writeFile(path.join(site, "index.html"), html.replace("</body>", () => `${script}</body>`));
+}
+
+async function runAsync(args: string[]): Promise<void> {
+  if (args.includes("--help")) {
+    console.log(USAGE);
+    return;
+  }
+
+  const options = parseArgs(args);
+  const leafNodes = await new GitLogNodeProvider(readLog(options)).GetLeafNodes();
+  const positions = options.Positions ? new LayeredLayoutEngine().ComputeLayout(leafNodes) : undefined;
+  const nodes = getAllNodes(leafNodes);
+  const snapshotJson = JSON.stringify(createGraphSnapshot(nodes, positions));
+
+  await fs.promises.mkdir(path.dirname(options.Out), { recursive: true });
+  await fs.promises.writeFile(options.Out, snapshotJson);
+  console.log(`Wrote ${nodes.length} commits to ${options.Out}`);
+
+  if (options.Site !== null) {
+    await writeSiteAsync(options, snapshotJson);
+    console.log(`Wrote a site showing them to ${options.Site}`);
+  }
+}
+
+runAsync(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  if (error instanceof UsageError) console.error(`\n${USAGE}`);
+  process.exitCode = error instanceof UsageError ? 2 : 1;
+});
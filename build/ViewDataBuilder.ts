@@ -1,8 +1,12 @@
 import feather from "feather-icons";
 import npmConfig from "../package.json";
+import { GitLogNodeProvider } from "../src/NodeProviders/GitLogNodeProvider";
+import { SettingControl } from "../src/Settings/Abstractions";
+import { DEFAULT_SETTINGS, getSettingInputId, SETTINGS_SCHEMA } from "../src/Settings/Schema";
 
 export default class ViewDataBuilder {
   private static readonly LBL_CLOSE: string = "Close";
+  private static readonly LBL_NO_KEY: string = "None";
   private static readonly ICON_INFO: string = feather.icons["info"].toSvg();
 
   public BuildViewData(): Promise<unknown> {
@@ -56,9 +60,100 @@ export default class ViewDataBuilder {
             external: true,
           },
         ],
+        cameraCommands: {
+          label: "Camera",
+          goToRef: {
+            label: "Go to branch or tag",
+            placeholder: "Branch or tag",
+            icon: feather.icons["corner-down-right"].toSvg(),
+          },
+          buttons: [
+            {
+              name: "go-to-head",
+              label: "Go to HEAD",
+              icon: feather.icons["home"].toSvg(),
+            },
+            {
+              name: "frame-selection",
+              label: "Frame selected commit",
+              icon: feather.icons["crosshair"].toSvg(),
+            },
+            {
+              name: "frame-all",
+              label: "Frame all",
+              icon: feather.icons["maximize"].toSvg(),
+            },
+          ],
+        },
+        saveImageBtn: {
+          label: "Save image",
+          icon: feather.icons["camera"].toSvg(),
+        },
         optionsMenuBtnLbl: "Toggle options menu",
         optionsMenuBtnIcon: feather.icons["menu"].toSvg(),
       },
+      commitDetails: {
+        heading: {
+          icon: feather.icons["git-commit"].toSvg(),
+          text: "Commit",
+        },
+        closeBtnLbl: ViewDataBuilder.LBL_CLOSE,
+        labels: {
+          author: "Author",
+          committer: "Committer",
+          parents: "Parents",
+          children: "Children",
+        },
+      },
+      search: {
+        query: {
+          label: "Search commits",
+          placeholder: "Search commits",
+          title: "Sha prefix or message text. Use /pattern/flags for a regular expression.",
+        },
+        prevBtnLbl: "Previous match",
+        prevBtnIcon: feather.icons["chevron-up"].toSvg(),
+        nextBtnLbl: "Next match",
+        nextBtnIcon: feather.icons["chevron-down"].toSvg(),
+        filtersBtnLbl: "More filters",
+        filtersBtnIcon: feather.icons["filter"].toSvg(),
+        labels: {
+          author: "Author",
+          since: "Since",
+          until: "Until",
+          ref: "Branch or tag",
+          hideNonMatching: "Hide commits that don't match",
+          hideMerges: "Hide merge commits",
+          firstParentOnly: "First-parent history only",
+        },
+      },
+      legend: {
+        label: "Color legend",
+      },
+      playback: {
+        label: "History playback",
+        play: {
+          label: "Play history",
+          icon: feather.icons["play"].toSvg(),
+        },
+        pause: {
+          label: "Pause history",
+          icon: feather.icons["pause"].toSvg(),
+        },
+        positionLbl: "Commits revealed",
+        order: {
+          label: "Reveal commits by",
+          options: [
+            { value: "commit-date", label: "Commit date" },
+            { value: "author-date", label: "Author date" },
+          ],
+        },
+        speed: {
+          label: "Playback speed",
+          options: [1, 5, 10, 50, 100, 500, 1000].map((x) => ({ value: x, label: `${x} commits/s` })),
+        },
+        loopLbl: "Loop",
+      },
       optionsMenu: {
         mainHeading: {
           icon: null,
@@ -72,6 +167,40 @@ export default class ViewDataBuilder {
               icon: feather.icons["folder"].toSvg(),
             },
             show: true,
+            controls: [
+              {
+                file: {
+                  id: "repo-open-directory",
+                  name: "openDirectory",
+                  label: "Open a repository (its folder or .git folder)",
+                  directory: true,
+                },
+              },
+              {
+                file: {
+                  id: "repo-open-log",
+                  name: "openLog",
+                  label: "Open a git log dump or graph snapshot",
+                  accept: ".txt,.log,.json,text/plain,application/json",
+                },
+              },
+              {
+                textarea: {
+                  id: "repo-pasted-log",
+                  name: "pastedLog",
+                  label: "Or paste a git log dump",
+                  rows: 4,
+                  placeholder: `Output of: ${GitLogNodeProvider.COMMAND}`,
+                },
+              },
+              {
+                button: {
+                  id: "repo-load-pasted-log",
+                  name: "loadPastedLog",
+                  label: "Load pasted log",
+                },
+              },
+            ],
           },
           {
             name: "display",
@@ -80,6 +209,23 @@ export default class ViewDataBuilder {
               icon: feather.icons["monitor"].toSvg(),
             },
             show: false,
+            controls: [
+              ...ViewDataBuilder.buildSettingControls("display"),
+              {
+                button: {
+                  id: "display-pause-layout",
+                  name: "pauseLayout",
+                  label: "Pause/resume layout",
+                },
+              },
+              {
+                button: {
+                  id: "display-reheat-layout",
+                  name: "reheatLayout",
+                  label: "Reheat layout",
+                },
+              },
+            ],
           },
           {
             name: "input",
@@ -88,7 +234,54 @@ export default class ViewDataBuilder {
               icon: feather.icons["mouse-pointer"].toSvg(),
             },
             show: false,
-          }
+            controls: ViewDataBuilder.buildSettingControls("input"),
+          },
+          {
+            name: "export",
+            heading: {
+              text: "Export",
+              icon: feather.icons["image"].toSvg(),
+            },
+            show: false,
+            controls: [
+              ...ViewDataBuilder.buildSettingControls("export"),
+              {
+                button: {
+                  id: "export-save-image",
+                  name: "saveImage",
+                  label: "Save image",
+                },
+              },
+              {
+                button: {
+                  id: "export-save-svg",
+                  name: "saveSvg",
+                  label: "Save 2D graph (.svg)",
+                },
+              },
+              {
+                button: {
+                  id: "export-save-scene-glb",
+                  name: "saveSceneGlb",
+                  label: "Save 3D scene (.glb)",
+                },
+              },
+              {
+                button: {
+                  id: "export-save-scene-gltf",
+                  name: "saveSceneGltf",
+                  label: "Save 3D scene (.gltf)",
+                },
+              },
+              {
+                button: {
+                  id: "export-save-snapshot",
+                  name: "saveSnapshot",
+                  label: "Save graph snapshot (.json)",
+                },
+              },
+            ],
+          },
         ],
       },
       footer: {
@@ -96,4 +289,35 @@ export default class ViewDataBuilder {
       },
     });
   }
+
+  /** Builds the view data of the inputs for a form's settings, with each input showing the setting's default value */
+  private static buildSettingControls(formName: string): unknown[] {
+    return (SETTINGS_SCHEMA[formName] ?? []).map((control: SettingControl) => {
+      const id = getSettingInputId(formName, control.Key);
+      const name = control.Key;
+      const label = control.Label;
+      const value = DEFAULT_SETTINGS[control.Key];
+      switch (control.Type) {
+        case "toggle":
+          return { toggle: { id, name, label, checked: value } };
+        case "slider":
+          return { slider: { id, name, label, value, min: control.Min, max: control.Max, step: control.Step } };
+        case "select":
+          return {
+            select: {
+              id,
+              name,
+              label,
+              options: control.Options.map((x) => ({ value: x.Value, label: x.Label, selected: x.Value === value })),
+            },
+          };
+        case "color":
+          return { color: { id, name, label, value } };
+        case "text":
+          return { text: { id, name, label, value, placeholder: control.Placeholder } };
+        case "key":
+          return { key: { id, name, label, value, placeholder: ViewDataBuilder.LBL_NO_KEY } };
+      }
+    });
+  }
 }
@@ -1,4 +1,249 @@
+import { Vector2, Vector3 } from "three";
+import { Legend } from "./Coloring/Abstractions";
+import { ImageExportOptions, SceneExportFormat } from "./Export/Abstractions";
+import { ILayoutEngine } from "./Layout/Abstractions";
+import { IHistoryPlayback } from "./Playback/Abstractions";
+import { Node, Ref } from "./Rendering/Abstractions";
+
+/** Type of the event dispatched when the selected node changes. The event's `node` is the new selection, or null. */
+export const SELECT_EVENT = "select";
+
+/** Type of the event dispatched (at most once per frame) while the camera moves */
+export const CAMERA_EVENT = "camera";
+
+export type CameraType = "perspective" | "orthographic";
+
+/** How camera commands (like focusing a commit) speed up and slow down */
+export type CameraEasing = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+
+/** What node colors show. "uniform" gives every node the node color setting. */
+export type ColorMode = "uniform" | "lane" | "author" | "age" | "change-size" | "ref-type";
+/** Colorblind-safe sets of colors for color modes with categories */
+export type ColorPalette = "okabe-ito" | "tol-bright" | "tol-muted";
+
+/** Whether the camera orbits around a target, or flies around freely in first person */
+export type NavigationMode = "orbit" | "fly";
+
+/** Where the camera is and what it looks at */
+export interface CameraState {
+  Position: Vector3;
+  Target: Vector3;
+  /** Zoom of an orthographic camera. Perspective cameras zoom by moving closer to their target instead. */
+  Zoom: number;
+}
+
+/**
+ * Type of the event dispatched when the legend of the node colors changes.
+ * The event's `legend` is the new legend, or null.
+ */
+export const LEGEND_EVENT = "legend";
+
+/**
+ * Type of the event dispatched when history playback changes: every frame while playing,
+ * and whenever commits are revealed or hidden (e.g. by seeking, or by loading a graph)
+ */
+export const PLAYBACK_EVENT = "playback";
+
+/** Type of the event dispatched when engine settings change. The event's `settings` holds just the changed settings. */
+export const SETTINGS_EVENT = "settings";
+
+/** What dragging with a mouse button does */
+export type MouseAction = "rotate" | "zoom" | "pan" | "none";
+/** What dragging with one or two fingers does. Two-finger gestures always zoom by pinching too. */
+export type OneFingerAction = "rotate" | "pan";
+export type TwoFingerAction = "zoom-pan" | "zoom-rotate";
+
+/** Appearance, camera and input settings of an {@link IDag3dEngine}, which can all be changed at runtime */
+export interface EngineSettings {
+  /** Changing the projection animates between them, so that the view stays framed the same */
+  CameraType: CameraType;
+  /** Switching modes keeps the camera where it is, looking the same way */
+  NavigationMode: NavigationMode;
+  /** Scale of every node, relative to its default size */
+  NodeSize: number;
+  /** Colors are CSS hex strings, like "#00ff00" */
+  NodeColor: string;
+  EdgeColor: string;
+  ColorMode: ColorMode;
+  ColorPalette: ColorPalette;
+  SelectionColor: string;
+  BackgroundColor: string;
+  /** Whether calendar gridlines, date labels and release tags are drawn along the history (x) axis */
+  ShowTimeAxis: boolean;
+  /** Whether the camera keeps moving for a bit after a drag, like it has inertia */
+  EnableDamping: boolean;
+  DampingFactor: number;
+  /** Closest and farthest that a perspective camera can get from its target */
+  MinDistance: number;
+  MaxDistance: number;
+  /** Least and most that an orthographic camera can zoom in */
+  MinZoom: number;
+  MaxZoom: number;
+  /** How long camera commands (like focusing a commit) take to move the camera, in milliseconds. 0 moves instantly. */
+  CameraAnimationDuration: number;
+  CameraEasing: CameraEasing;
+
+  LeftMouseAction: MouseAction;
+  MiddleMouseAction: MouseAction;
+  RightMouseAction: MouseAction;
+  OneFingerAction: OneFingerAction;
+  TwoFingerAction: TwoFingerAction;
+  RotateSpeed: number;
+  ZoomSpeed: number;
+  PanSpeed: number;
+  InvertRotateX: boolean;
+  InvertRotateY: boolean;
+  InvertZoom: boolean;
+  /** World units flown per second, in fly mode */
+  FlySpeed: number;
+
+  /** Keyboard shortcuts are KeyboardEvent.code values (like "ArrowLeft" or "KeyF"), or empty to disable the shortcut */
+  PanLeftKey: string;
+  PanUpKey: string;
+  PanRightKey: string;
+  PanDownKey: string;
+  /** Pixels panned per key press */
+  KeyPanSpeed: number;
+  /** Keys that fly the camera while held, in fly mode. Only then do they take priority over the pan keys. */
+  MoveForwardKey: string;
+  MoveBackwardKey: string;
+  MoveLeftKey: string;
+  MoveRightKey: string;
+  MoveUpKey: string;
+  MoveDownKey: string;
+  /** Switches between orbit and fly mode */
+  ToggleNavigationModeKey: string;
+  /** Glides the camera along the selected commit's first-parent history */
+  FollowFirstParentKey: string;
+  /** Selects the selected commit's first parent, i.e. moves back through history */
+  SelectParentKey: string;
+  /** Selects a child of the selected commit, preferring the child that continues the same line of development */
+  SelectChildKey: string;
+  /** Moves the camera to the selected commit */
+  FocusSelectionKey: string;
+  /** Shows the whole graph */
+  FrameAllKey: string;
+  /** Moves the camera close enough to the selected commit to make it out */
+  FrameSelectionKey: string;
+  /** Selects and moves the camera to the commit that HEAD points at */
+  GoToHeadKey: string;
+  /** Plays or pauses history playback */
+  TogglePlaybackKey: string;
+}
+
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = {
+  CameraType: "orthographic",
+  NavigationMode: "orbit",
+  NodeSize: 1,
+  NodeColor: "#00ff00",
+  EdgeColor: "#ff0000",
+  ColorMode: "uniform",
+  ColorPalette: "okabe-ito",
+  SelectionColor: "#ffffff",
+  BackgroundColor: "#000000",
+  ShowTimeAxis: false,
+  EnableDamping: true,
+  DampingFactor: 0.05,
+  MinDistance: 1,
+  MaxDistance: 100,
+  MinZoom: 0.01,
+  MaxZoom: 100,
+  CameraAnimationDuration: 600,
+  CameraEasing: "ease-in-out",
+
+  LeftMouseAction: "rotate",
+  MiddleMouseAction: "zoom",
+  RightMouseAction: "pan",
+  OneFingerAction: "rotate",
+  TwoFingerAction: "zoom-pan",
+  RotateSpeed: 1,
+  ZoomSpeed: 1,
+  PanSpeed: 1,
+  InvertRotateX: false,
+  InvertRotateY: false,
+  InvertZoom: false,
+  FlySpeed: 10,
+
+  PanLeftKey: "ArrowLeft",
+  PanUpKey: "ArrowUp",
+  PanRightKey: "ArrowRight",
+  PanDownKey: "ArrowDown",
+  KeyPanSpeed: 7,
+  MoveForwardKey: "KeyW",
+  MoveBackwardKey: "KeyS",
+  MoveLeftKey: "KeyA",
+  MoveRightKey: "KeyD",
+  MoveUpKey: "KeyE",
+  MoveDownKey: "KeyQ",
+  ToggleNavigationModeKey: "KeyV",
+  FollowFirstParentKey: "KeyG",
+  SelectParentKey: "BracketLeft",
+  SelectChildKey: "BracketRight",
+  FocusSelectionKey: "KeyF",
+  FrameAllKey: "Home",
+  FrameSelectionKey: "Period",
+  GoToHeadKey: "KeyH",
+  TogglePlaybackKey: "KeyP",
+};
+
 export interface IDag3dEngine {
   InitializeAsync(): Promise<void>;
   Update(): void;
+  /** Replaces the current graph (if any) with the graph reachable from the given leaf nodes */
+  LoadGraph(leafNodes: Node[]): void;
+  /** Removes the current graph from the scene and frees its resources */
+  ClearGraph(): void;
+  /** Changes how nodes are positioned, re-laying out the current graph */
+  SetLayoutEngine(layoutEngine: ILayoutEngine): void;
+  readonly LayoutEngine: ILayoutEngine;
+  /** The currently selected node, if any */
+  readonly SelectedNode: Node | null;
+  /** Selects a node, or clears the selection if null. Dispatches a {@link SELECT_EVENT} event if it changed. */
+  SelectNode(node: Node | null): void;
+  /** Animates the camera so that it looks at the given node, without changing its distance or direction */
+  FocusNode(node: Node): void;
+  /** Animates the camera so that it shows the whole graph, without changing its direction */
+  FrameAll(): void;
+  /** Animates the camera so that it shows just the given nodes, without changing its direction */
+  FrameNodes(nodes: Node[]): void;
+  /** Switches to fly mode and glides the camera back through history, along the selected node's first parents */
+  FollowFirstParent(): void;
+  /** Explains the node colors of the current color mode, or null if every node has the same color */
+  readonly Legend: Legend | null;
+  /** Every node in the current graph */
+  readonly Nodes: readonly Node[];
+  /** Where the layout put every node of the current graph */
+  readonly NodePositions: ReadonlyMap<Node, Vector3>;
+  /** Replays how the current graph grew. Commits that playback hasn't revealed yet aren't drawn. */
+  readonly Playback: IHistoryPlayback;
+  /**
+   * Highlights some nodes (like search results) and leaves others out of the scene
+   * @param highlighted Nodes to highlight, dimming every other node, or null to draw every node normally
+   * @param hidden Nodes that aren't drawn, along with their parent links
+   */
+  SetNodeFilter(highlighted: Node[] | null, hidden: Node[]): void;
+  /** @returns The node in the current graph with the given ID, if any */
+  GetNode(id: string): Node | null;
+  /** @returns Every ref in the current graph, sorted by type (HEAD first) and then name */
+  GetRefs(): Ref[];
+  /** @returns The node that the ref with the given short name (like "main" or "HEAD") points at, if any */
+  GetRefNode(name: string): Node | null;
+  GetCameraState(): CameraState;
+  /** Moves the camera to a previously saved state, without animating */
+  SetCameraState(state: CameraState): void;
+  readonly Settings: Readonly<EngineSettings>;
+  /** Renders the current view offscreen into a new canvas, e.g. to save it as a PNG */
+  RenderImage(options?: Partial<ImageExportOptions>): HTMLCanvasElement;
+  /**
+   * @returns Where each drawn node appears on the canvas, in CSS pixels from its top left corner.
+   * Nodes behind the camera are left out.
+   */
+  ProjectNodes(): Map<Node, Vector2>;
+  /** Exports the laid-out graph as a glTF scene, leaving out the nodes that aren't drawn */
+  ExportSceneAsync(format: SceneExportFormat): Promise<Blob>;
+  /**
+   * Changes some settings, applying them immediately.
+   * Dispatches a {@link SETTINGS_EVENT} event with the settings that changed.
+   */
+  ApplySettings(settings: Partial<EngineSettings>): void;
 }
@@ -0,0 +1,25 @@
+import { Node } from "../Rendering/Abstractions";
+
+export interface LegendEntry {
+  Label: string;
+  /** CSS hex color, like "#e69f00" */
+  Color: string;
+}
+
+/** Explains what node colors mean. Legends have categories, a gradient, or a gradient plus extra categories. */
+export interface Legend {
+  Title: string;
+  Entries: LegendEntry[];
+  Gradient: {
+    /** Evenly spaced stops of the gradient, as CSS hex colors */
+    Colors: string[];
+    StartLabel: string;
+    EndLabel: string;
+  } | null;
+}
+
+export interface NodeColoring {
+  /** CSS hex color of every node */
+  Colors: Map<Node, string>;
+  Legend: Legend;
+}
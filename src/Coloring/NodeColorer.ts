@@ -0,0 +1,193 @@
+import { Color } from "three";
+import { ColorMode, ColorPalette } from "../Abstractions";
+import { sortChildrenFirst } from "../NodeGraph";
+import { Node, RefType } from "../Rendering/Abstractions";
+import { LegendEntry, NodeColoring } from "./Abstractions";
+import { CATEGORICAL_PALETTES, CategoricalPalette, GRADIENT_PALETTE } from "./Palettes";
+
+const REF_TYPE_LABELS: { [type in RefType]: string } = {
+  head: "HEAD",
+  branch: "Branch",
+  remote: "Remote branch",
+  tag: "Tag",
+};
+const REF_TYPE_ORDER: RefType[] = ["head", "branch", "remote", "tag"];
+/** Which of a branch tip's refs names the branch. HEAD is only used when it's detached. */
+const BRANCH_NAME_ORDER: RefType[] = ["branch", "remote", "tag", "head"];
+const UNKNOWN_LABEL = "Unknown";
+
+/**
+ * Works out the color of every node for a color mode, along with a legend explaining the colors
+ * @returns Null for the "uniform" mode, where every node has the node color setting instead
+ */
+export function colorNodes(nodes: readonly Node[], mode: ColorMode, paletteName: ColorPalette): NodeColoring | null {
+  const palette = CATEGORICAL_PALETTES[paletteName];
+  switch (mode) {
+    case "uniform":
+      return null;
+    case "lane":
+      return colorByLane(nodes, palette);
+    case "author":
+      return colorByAuthor(nodes, palette);
+    case "age":
+      return colorByAge(nodes, palette);
+    case "change-size":
+      return colorByChangeSize(nodes, palette);
+    case "ref-type":
+      return colorByRefType(nodes, palette);
+  }
+}
+
+/** Colors each line of development (a chain of first parents, starting at a branch tip) after its branch */
+function colorByLane(nodes: readonly Node[], palette: CategoricalPalette): NodeColoring {
+  const colors = new Map<Node, string>();
+  const entries: LegendEntry[] = [];
+  const tipPriority = (node: Node) =>
+    Math.min(REF_TYPE_ORDER.length, ...(node.Commit?.Refs ?? []).map((x) => REF_TYPE_ORDER.indexOf(x.Type)));
+
+  // Visit branch tips first, so that each branch claims its own history before anything merged into it does
+  const childrenFirst = sortChildrenFirst(nodes);
+  const starts = childrenFirst
+    .map((node, index) => ({ node, index, priority: tipPriority(node) }))
+    .sort((a, b) => a.priority - b.priority || a.index - b.index)
+    .map((x) => x.node);
+
+  const chains: { Name: string | null; Nodes: Node[] }[] = [];
+  starts.forEach((start) => {
+    if (colors.has(start)) return;
+
+    const chain = { Name: getBranchName(start), Nodes: [] as Node[] };
+    for (let node: Node | null = start; node && !colors.has(node); node = node.FirstParent) {
+      chain.Nodes.push(node);
+      colors.set(node, palette.Other);
+    }
+    chains.push(chain);
+  });
+
+  chains
+    .filter((x) => x.Name !== null)
+    .slice(0, palette.Colors.length)
+    .forEach((chain, index) => {
+      const color = palette.Colors[index];
+      chain.Nodes.forEach((x) => colors.set(x, color));
+      entries.push({ Label: chain.Name!, Color: color });
+    });
+  if (entries.length < chains.length) entries.push({ Label: "Other branches", Color: palette.Other });
+
+  return { Colors: colors, Legend: { Title: "Branch", Entries: entries, Gradient: null } };
+}
+
+/** Gives the authors of the most commits their own colors */
+function colorByAuthor(nodes: readonly Node[], palette: CategoricalPalette): NodeColoring {
+  const authors = new Map<string, { Name: string; Count: number }>();
+  const getKey = (node: Node) => node.Commit && (node.Commit.Author.Email || node.Commit.Author.Name).toLowerCase();
+  nodes.forEach((node) => {
+    const key = getKey(node);
+    if (key === null) return;
+    const author = authors.get(key) ?? { Name: node.Commit!.Author.Name, Count: 0 };
+    author.Count++;
+    authors.set(key, author);
+  });
+
+  const topAuthors = Array.from(authors.entries())
+    .sort((a, b) => b[1].Count - a[1].Count)
+    .slice(0, palette.Colors.length);
+  const authorColors = new Map(topAuthors.map(([key], index) => [key, palette.Colors[index]]));
+
+  const colors = new Map<Node, string>();
+  nodes.forEach((node) => colors.set(node, authorColors.get(getKey(node) ?? "") ?? palette.Other));
+
+  const entries = topAuthors.map(([key, author]) => ({ Label: author.Name, Color: authorColors.get(key)! }));
+  if (authors.size > topAuthors.length || nodes.some((x) => !x.Commit))
+    entries.push({ Label: "Other authors", Color: palette.Other });
+  return { Colors: colors, Legend: { Title: "Author", Entries: entries, Gradient: null } };
+}
+
+/** Colors commits along a gradient from the oldest to the newest commit date */
+function colorByAge(nodes: readonly Node[], palette: CategoricalPalette): NodeColoring {
+  const times = nodes.filter((x) => x.Commit).map((x) => x.Commit!.Committer.Date.getTime());
+  const oldest = times.reduce((a, b) => Math.min(a, b), Infinity); // Too many to spread into Math.min
+  const newest = times.reduce((a, b) => Math.max(a, b), -Infinity);
+
+  const colors = new Map<Node, string>();
+  nodes.forEach((node) => {
+    const time = node.Commit?.Committer.Date.getTime();
+    colors.set(
+      node,
+      time === undefined ? palette.Other : getGradientColor(newest > oldest ? (time - oldest) / (newest - oldest) : 1)
+    );
+  });
+
+  const formatDate = (time: number) => new Date(time).toISOString().substring(0, 10);
+  return {
+    Colors: colors,
+    Legend: {
+      Title: "Commit date",
+      Entries: times.length < nodes.length ? [{ Label: UNKNOWN_LABEL, Color: palette.Other }] : [],
+      Gradient:
+        times.length > 0
+          ? { Colors: GRADIENT_PALETTE, StartLabel: formatDate(oldest), EndLabel: formatDate(newest) }
+          : null,
+    },
+  };
+}
+
+/** Colors commits along a gradient by how many lines they changed, on a log scale so that small changes differ too */
+function colorByChangeSize(nodes: readonly Node[], palette: CategoricalPalette): NodeColoring {
+  const getLines = (node: Node) => {
+    const stats = node.Commit?.Stats;
+    return stats ? stats.Insertions + stats.Deletions : null;
+  };
+  const known = nodes.map(getLines).filter((x): x is number => x !== null);
+  const most = known.reduce((a, b) => Math.max(a, b), 0);
+
+  const colors = new Map<Node, string>();
+  nodes.forEach((node) => {
+    const lines = getLines(node);
+    colors.set(
+      node,
+      lines === null ? palette.Other : getGradientColor(most > 0 ? Math.log1p(lines) / Math.log1p(most) : 0)
+    );
+  });
+
+  return {
+    Colors: colors,
+    Legend: {
+      Title: "Lines changed",
+      Entries: known.length < nodes.length ? [{ Label: UNKNOWN_LABEL, Color: palette.Other }] : [],
+      Gradient: known.length > 0 ? { Colors: GRADIENT_PALETTE, StartLabel: "0", EndLabel: String(most) } : null,
+    },
+  };
+}
+
+/** Colors commits by the most important type of ref pointing at them */
+function colorByRefType(nodes: readonly Node[], palette: CategoricalPalette): NodeColoring {
+  const typeColors = new Map(REF_TYPE_ORDER.map((type, index) => [type, palette.Colors[index]]));
+  const colors = new Map<Node, string>();
+  nodes.forEach((node) => {
+    const type = REF_TYPE_ORDER.find((x) => node.Commit?.Refs.some((ref) => ref.Type === x));
+    colors.set(node, type ? typeColors.get(type)! : palette.Other);
+  });
+
+  const entries = REF_TYPE_ORDER.map((type) => ({ Label: REF_TYPE_LABELS[type], Color: typeColors.get(type)! }));
+  entries.push({ Label: "No refs", Color: palette.Other });
+  return { Colors: colors, Legend: { Title: "Ref type", Entries: entries, Gradient: null } };
+}
+
+/** @param t Position along the gradient, from 0 to 1 */
+function getGradientColor(t: number): string {
+  const position = Math.min(Math.max(t, 0), 1) * (GRADIENT_PALETTE.length - 1);
+  const index = Math.min(Math.floor(position), GRADIENT_PALETTE.length - 2);
+  const color = new Color(GRADIENT_PALETTE[index]).lerp(new Color(GRADIENT_PALETTE[index + 1]), position - index);
+  return `#${color.getHexString()}`;
+}
+
+/** @returns The name of the branch (or other ref) that a branch tip is the tip of, or null if nothing points at it */
+function getBranchName(tip: Node): string | null {
+  const refs = tip.Commit?.Refs ?? [];
+  for (const type of BRANCH_NAME_ORDER) {
+    const ref = refs.find((x) => x.Type === type);
+    if (ref) return ref.Name;
+  }
+  return null;
+}
@@ -0,0 +1,39 @@
+import { ColorPalette } from "../Abstractions";
+
+/** A set of distinct colors for categories, plus a neutral color for everything that doesn't get its own color */
+export interface CategoricalPalette {
+  Colors: string[];
+  Other: string;
+}
+
+/**
+ * Categorical palettes that stay distinguishable with the common kinds of color blindness.
+ * Black is left out of Okabe and Ito's palette, since it's the default background.
+ * See https://jfly.uni-koeln.de/color/ and https://personal.sron.nl/~pault/
+ */
+export const CATEGORICAL_PALETTES: { [name in ColorPalette]: CategoricalPalette } = {
+  "okabe-ito": {
+    Colors: ["#e69f00", "#56b4e9", "#009e73", "#f0e442", "#0072b2", "#d55e00", "#cc79a7"],
+    Other: "#999999",
+  },
+  "tol-bright": {
+    Colors: ["#4477aa", "#ee6677", "#228833", "#ccbb44", "#66ccee", "#aa3377"],
+    Other: "#bbbbbb",
+  },
+  "tol-muted": {
+    Colors: ["#cc6677", "#332288", "#ddcc77", "#117733", "#88ccee", "#882255", "#44aa99", "#999933", "#aa4499"],
+    Other: "#dddddd",
+  },
+};
+
+/** Stops of the viridis gradient, which is perceptually uniform and readable with color blindness */
+export const GRADIENT_PALETTE = [
+  "#440154",
+  "#46327e",
+  "#365c8d",
+  "#277f8e",
+  "#1fa187",
+  "#4ac16d",
+  "#a0da39",
+  "#fde725",
+];
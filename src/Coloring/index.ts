@@ -0,0 +1,2 @@
+export * from "./NodeColorer";
+export * from "./Palettes";
@@ -0,0 +1,88 @@
+import { Node, RefType, Signature } from "../Rendering/Abstractions";
+
+/**
+ * Fills in the commit details panel from the `CommitDetails` partial with the selected node's commit.
+ * The partial only provides the panel's structure, since commits are only known at runtime.
+ */
+export class CommitDetailsPanel {
+  /** Bootstrap badge color of each type of ref */
+  private static readonly REF_BADGE_CLASSES: { [type in RefType]: string } = {
+    head: "bg-primary",
+    branch: "bg-success",
+    remote: "bg-secondary",
+    tag: "bg-warning text-dark",
+  };
+
+  private readonly element: HTMLElement;
+  private readonly onNodeClicked: (node: Node | null) => void;
+
+  /**
+   * @param element Root element of the rendered `CommitDetails` partial
+   * @param onNodeClicked Called with a parent or child node when its link is clicked,
+   * or with null when the panel is closed
+   */
+  public constructor(element: HTMLElement, onNodeClicked: (node: Node | null) => void) {
+    this.element = element;
+    this.onNodeClicked = onNodeClicked;
+
+    this.find("js-commit-close").addEventListener("click", () => this.onNodeClicked(null));
+  }
+
+  /** Shows the details of a node, or hides the panel if null */
+  public Show(node: Node | null): void {
+    this.element.classList.toggle("d-none", !node);
+    if (!node) return;
+
+    this.find("js-commit-sha").textContent = node.Id.substring(0, 7);
+    this.find("js-commit-sha").title = node.Id;
+    this.find("js-commit-message").textContent = node.Commit?.Message ?? node.Label;
+    this.find("js-commit-author").textContent = node.Commit
+      ? CommitDetailsPanel.formatSignature(node.Commit.Author)
+      : "-";
+    this.find("js-commit-committer").textContent = node.Commit
+      ? CommitDetailsPanel.formatSignature(node.Commit.Committer)
+      : "-";
+
+    CommitDetailsPanel.setChildren(
+      this.find("js-commit-refs"),
+      (node.Commit?.Refs ?? []).map((ref) => {
+        const badge = document.createElement("span");
+        badge.className = `badge me-1 ${CommitDetailsPanel.REF_BADGE_CLASSES[ref.Type]}`;
+        badge.textContent = ref.Name;
+        return badge;
+      })
+    );
+
+    CommitDetailsPanel.setChildren(this.find("js-commit-parents"), node.Parents.map((x) => this.createNodeLink(x)));
+    CommitDetailsPanel.setChildren(this.find("js-commit-children"), node.Children.map((x) => this.createNodeLink(x)));
+  }
+
+  private createNodeLink(node: Node): HTMLElement {
+    const link = document.createElement("a");
+    link.href = "#";
+    link.textContent = `${node.Id.substring(0, 7)} ${node.Commit?.Subject ?? node.Label}`;
+    link.title = node.Id;
+    link.className = "d-block text-truncate";
+    link.addEventListener("click", (e) => {
+      e.preventDefault();
+      this.onNodeClicked(node);
+    });
+
+    const item = document.createElement("li");
+    item.appendChild(link);
+    return item;
+  }
+
+  private find(className: string): HTMLElement {
+    return this.element.getElementsByClassName(className)[0] as HTMLElement;
+  }
+
+  private static setChildren(parent: HTMLElement, children: HTMLElement[]) {
+    parent.textContent = "";
+    children.forEach((x) => parent.appendChild(x));
+  }
+
+  private static formatSignature(signature: Signature): string {
+    return `${signature.Name} <${signature.Email}>, ${signature.Date.toLocaleString()}`;
+  }
+}
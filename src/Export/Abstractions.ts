@@ -0,0 +1,63 @@
+import { CommitMetadata, Signature } from "../Rendering/Abstractions";
+
+/** How {@link IDag3dEngine.RenderImage} renders an image of the current view */
+export interface ImageExportOptions {
+  /**
+   * Resolution as a multiple of the screen resolution, e.g. 4 for slides.
+   * Limited to the largest image the GPU renders.
+   */
+  Scale: number;
+  /** Whether the background is left transparent, rather than filled with the background color */
+  TransparentBackground: boolean;
+  /** Drawn at the top of the image, unless empty */
+  Title: string;
+  /** Whether the legend of the current color mode (if any) is drawn in the corner of the image */
+  IncludeLegend: boolean;
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  Scale: 1,
+  TransparentBackground: false,
+  Title: "",
+  IncludeLegend: true,
+};
+
+export const GRAPH_SNAPSHOT_FORMAT = "git3d-graph";
+/** Version of the {@link GraphSnapshot} format that is written. Snapshots of this version and older can be read. */
+export const GRAPH_SNAPSHOT_VERSION = 1;
+
+/**
+ * A commit graph and its layout, saved as JSON so that a large repository can be analyzed once and shared.
+ * Dates are ISO 8601 strings, and every field is always present (null if unknown) so that other tools can read it.
+ */
+export interface GraphSnapshot {
+  /** Always {@link GRAPH_SNAPSHOT_FORMAT}, so that snapshots can be told apart from other JSON */
+  Format: typeof GRAPH_SNAPSHOT_FORMAT;
+  Version: number;
+  /** When the snapshot was saved */
+  Created: string;
+  /** Every node of the graph, children before parents */
+  Nodes: GraphSnapshotNode[];
+}
+
+export interface GraphSnapshotNode {
+  Id: string;
+  Label: string;
+  /** IDs of the node's parents, first parent first */
+  Parents: string[];
+  Commit: GraphSnapshotCommit | null;
+  /** Where the layout put the node, as [x, y, z], or null if it wasn't laid out */
+  Position: [number, number, number] | null;
+}
+
+export interface GraphSnapshotSignature extends Omit<Signature, "Date"> {
+  Date: string;
+}
+
+export interface GraphSnapshotCommit extends Omit<CommitMetadata, "Author" | "Committer"> {
+  Author: GraphSnapshotSignature;
+  Committer: GraphSnapshotSignature;
+}
+
+/** glTF as JSON with embedded buffers, or binary glTF (GLB) */
+export type SceneExportFormat = "gltf" | "glb";
@@ -0,0 +1,112 @@
+import {
+  BufferGeometry,
+  Color,
+  Float32BufferAttribute,
+  Group,
+  LineBasicMaterial,
+  LineSegments,
+  Mesh,
+  MeshBasicMaterial,
+  Scene,
+  Vector3,
+} from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter";
+import { Node } from "../Rendering/Abstractions";
+import { SceneExportFormat } from "./Abstractions";
+
+/** How {@link exportSceneAsync} draws the graph */
+export interface SceneExportStyle {
+  /** Geometry of every node, at a scale of 1. It is shared, not disposed. */
+  NodeGeometry: BufferGeometry;
+  NodeScale: number;
+  GetNodeColor: (node: Node) => Color;
+  EdgeColor: Color;
+}
+
+const MIME_TYPES: { [format in SceneExportFormat]: string } = {
+  gltf: "model/gltf+json",
+  glb: "model/gltf-binary",
+};
+
+/**
+ * Exports a laid-out graph as a glTF scene, for other 3D tools.
+ * Each node is a mesh named after its ID (the commit sha), with its label and commit details in the glTF extras.
+ * Parent links are drawn as one set of line segments.
+ * @param nodes The nodes to export. Parent links to other nodes are left out.
+ */
+export function exportSceneAsync(
+  nodes: readonly Node[],
+  positions: ReadonlyMap<Node, Vector3>,
+  style: SceneExportStyle,
+  format: SceneExportFormat
+): Promise<Blob> {
+  const scene = createScene(nodes, positions, style);
+  return new Promise<Blob>((resolve) =>
+    new GLTFExporter().parse(
+      scene,
+      (gltf) => {
+        disposeScene(scene, style.NodeGeometry);
+        const data = format === "glb" ? (gltf as ArrayBuffer) : JSON.stringify(gltf);
+        resolve(new Blob([data], { type: MIME_TYPES[format] }));
+      },
+      { binary: format === "glb" }
+    )
+  );
+}
+
+function createScene(nodes: readonly Node[], positions: ReadonlyMap<Node, Vector3>, style: SceneExportStyle): Scene {
+  const scene = new Scene();
+  scene.name = "git3d";
+
+  // Share a material between nodes of the same color, so that the exporter writes one mesh per color
+  const materials = new Map<number, MeshBasicMaterial>();
+  const commits = new Group();
+  commits.name = "Commits";
+  nodes.forEach((node) => {
+    const position = positions.get(node);
+    if (!position) return;
+
+    const color = style.GetNodeColor(node);
+    const material = materials.get(color.getHex()) ?? new MeshBasicMaterial({ color });
+    materials.set(color.getHex(), material);
+    const mesh = new Mesh(style.NodeGeometry, material);
+    mesh.name = node.Id;
+    mesh.position.copy(position);
+    mesh.scale.setScalar(style.NodeScale);
+    mesh.userData = {
+      Label: node.Label,
+      Subject: node.Commit?.Subject ?? null,
+      Author: node.Commit?.Author.Name ?? null,
+      Date: node.Commit?.Committer.Date.toISOString() ?? null,
+      Refs: node.Commit?.Refs.map((x) => x.Name) ?? [],
+    };
+    commits.add(mesh);
+  });
+  scene.add(commits);
+
+  const exported = new Set(nodes);
+  const edgePositions: number[] = [];
+  nodes.forEach((node) => {
+    const position = positions.get(node);
+    node.Parents.forEach((parent) => {
+      const parentPosition = positions.get(parent);
+      if (position && parentPosition && exported.has(parent))
+        edgePositions.push(position.x, position.y, position.z, parentPosition.x, parentPosition.y, parentPosition.z);
+    });
+  });
+  const edgeGeometry = new BufferGeometry();
+  edgeGeometry.setAttribute("position", new Float32BufferAttribute(edgePositions, 3));
+  const edges = new LineSegments(edgeGeometry, new LineBasicMaterial({ color: style.EdgeColor }));
+  edges.name = "Parent links";
+  scene.add(edges);
+
+  return scene;
+}
+
+function disposeScene(scene: Scene, sharedGeometry: BufferGeometry) {
+  scene.traverse((object) => {
+    if (!(object instanceof Mesh || object instanceof LineSegments)) return;
+    if (object.geometry !== sharedGeometry) object.geometry.dispose();
+    object.material.dispose();
+  });
+}
@@ -0,0 +1,60 @@
+import { Vector3 } from "three";
+import { sortTopologically } from "../NodeGraph";
+import { Node, Signature } from "../Rendering/Abstractions";
+import {
+  GRAPH_SNAPSHOT_FORMAT,
+  GRAPH_SNAPSHOT_VERSION,
+  GraphSnapshot,
+  GraphSnapshotNode,
+  GraphSnapshotSignature,
+} from "./Abstractions";
+
+/** Decimal places that positions are saved with, which is far finer than nodes are apart */
+const POSITION_PRECISION = 3;
+
+/**
+ * Saves a graph and its layout as a {@link GraphSnapshot}.
+ * Doesn't need a browser, so that snapshots can be made offline.
+ * @param nodes Every node of the graph
+ * @param positions Where the layout put each node. Nodes without a position are saved without one.
+ */
+export function createGraphSnapshot(
+  nodes: readonly Node[],
+  positions: ReadonlyMap<Node, Vector3> = new Map<Node, Vector3>()
+): GraphSnapshot {
+  const leafNodes = nodes.filter((x) => x.Children.length === 0);
+  return {
+    Format: GRAPH_SNAPSHOT_FORMAT,
+    Version: GRAPH_SNAPSHOT_VERSION,
+    Created: new Date().toISOString(),
+    Nodes: sortTopologically(leafNodes)
+      .reverse()
+      .map((node) => snapshotNode(node, positions.get(node))),
+  };
+}
+
+function snapshotNode(node: Node, position: Vector3 | undefined): GraphSnapshotNode {
+  const commit = node.Commit;
+  return {
+    Id: node.Id,
+    Label: node.Label,
+    Parents: node.Parents.map((x) => x.Id),
+    Commit: commit && {
+      Author: snapshotSignature(commit.Author),
+      Committer: snapshotSignature(commit.Committer),
+      Subject: commit.Subject,
+      Message: commit.Message,
+      Refs: commit.Refs.map((x) => ({ Name: x.Name, Type: x.Type })),
+      Stats: commit.Stats && { ...commit.Stats },
+    },
+    Position: position ? [roundPosition(position.x), roundPosition(position.y), roundPosition(position.z)] : null,
+  };
+}
+
+function roundPosition(x: number): number {
+  return Number(x.toFixed(POSITION_PRECISION));
+}
+
+function snapshotSignature(signature: Signature): GraphSnapshotSignature {
+  return { Name: signature.Name, Email: signature.Email, Date: signature.Date.toISOString() };
+}
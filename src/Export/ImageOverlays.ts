@@ -0,0 +1,100 @@
+import { Legend } from "../Coloring/Abstractions";
+
+const FONT_FAMILY = "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+// Sizes are in CSS pixels, and are scaled up along with the image
+const FONT_SIZE = 14;
+const TITLE_FONT_SIZE = 24;
+const LINE_HEIGHT = 1.5;
+const MARGIN = 8;
+const PADDING = 8;
+const SWATCH_SIZE = 10;
+const GRADIENT_WIDTH = 160;
+const GRADIENT_HEIGHT = 10;
+/** Like the overlays on screen: light cards with dark text, which read well on any background */
+const PANEL_COLOR = "rgba(255, 255, 255, 0.85)";
+const TEXT_COLOR = "#212529";
+const MUTED_TEXT_COLOR = "#6c757d";
+
+/**
+ * Draws a title centered at the top of an image
+ * @param pixelScale Image pixels per CSS pixel
+ */
+export function drawTitle(context: CanvasRenderingContext2D, title: string, pixelScale: number): void {
+  const s = (x: number) => x * pixelScale;
+  context.font = `bold ${s(TITLE_FONT_SIZE)}px ${FONT_FAMILY}`;
+  const width = context.measureText(title).width + s(2 * PADDING);
+  const height = s(TITLE_FONT_SIZE * LINE_HEIGHT + 2 * PADDING);
+  const left = (context.canvas.width - width) / 2;
+  const top = s(MARGIN);
+
+  context.fillStyle = PANEL_COLOR;
+  context.fillRect(left, top, width, height);
+  context.fillStyle = TEXT_COLOR;
+  context.textBaseline = "middle";
+  context.fillText(title, left + s(PADDING), top + height / 2);
+}
+
+/**
+ * Draws a legend in the bottom left corner of an image, laid out like the legend overlay on screen
+ * @param pixelScale Image pixels per CSS pixel
+ */
+export function drawLegend(context: CanvasRenderingContext2D, legend: Legend, pixelScale: number): void {
+  const s = (x: number) => x * pixelScale;
+  const lineHeight = s(FONT_SIZE * LINE_HEIGHT);
+  const titleFont = `bold ${s(FONT_SIZE)}px ${FONT_FAMILY}`;
+  const font = `${s(FONT_SIZE)}px ${FONT_FAMILY}`;
+
+  // Measure the lines, so that the panel fits them
+  context.font = titleFont;
+  let contentWidth = context.measureText(legend.Title).width;
+  context.font = font;
+  legend.Entries.forEach((entry) => {
+    const entryWidth = s(SWATCH_SIZE + PADDING / 2) + context.measureText(entry.Label).width;
+    contentWidth = Math.max(contentWidth, entryWidth);
+  });
+  if (legend.Gradient) contentWidth = Math.max(contentWidth, s(GRADIENT_WIDTH));
+  const lineCount = 1 + legend.Entries.length + (legend.Gradient ? 2 : 0);
+  const width = contentWidth + s(2 * PADDING);
+  const height = lineCount * lineHeight + s(2 * PADDING);
+  const left = s(MARGIN);
+  let y = context.canvas.height - s(MARGIN) - height + s(PADDING);
+
+  context.fillStyle = PANEL_COLOR;
+  context.fillRect(left, y - s(PADDING), width, height);
+  context.textBaseline = "middle";
+  const x = left + s(PADDING);
+
+  context.font = titleFont;
+  context.fillStyle = TEXT_COLOR;
+  context.fillText(legend.Title, x, y + lineHeight / 2);
+  y += lineHeight;
+
+  context.font = font;
+  const gradient = legend.Gradient;
+  if (gradient) {
+    const barWidth = contentWidth;
+    const fill = context.createLinearGradient(x, 0, x + barWidth, 0);
+    gradient.Colors.forEach((color, index) => fill.addColorStop(index / (gradient.Colors.length - 1), color));
+    context.fillStyle = fill;
+    context.fillRect(x, y + (lineHeight - s(GRADIENT_HEIGHT)) / 2, barWidth, s(GRADIENT_HEIGHT));
+    y += lineHeight;
+
+    context.fillStyle = MUTED_TEXT_COLOR;
+    context.textAlign = "left";
+    context.fillText(gradient.StartLabel, x, y + lineHeight / 2);
+    context.textAlign = "right";
+    context.fillText(gradient.EndLabel, x + barWidth, y + lineHeight / 2);
+    context.textAlign = "left";
+    y += lineHeight;
+  }
+
+  legend.Entries.forEach((entry) => {
+    context.fillStyle = entry.Color;
+    context.beginPath();
+    context.arc(x + s(SWATCH_SIZE) / 2, y + lineHeight / 2, s(SWATCH_SIZE) / 2, 0, 2 * Math.PI);
+    context.fill();
+    context.fillStyle = TEXT_COLOR;
+    context.fillText(entry.Label, x + s(SWATCH_SIZE + PADDING / 2), y + lineHeight / 2);
+    y += lineHeight;
+  });
+}
@@ -0,0 +1,3 @@
+export * from "./GltfExport";
+export * from "./GraphSnapshot";
+export * from "./ImageOverlays";
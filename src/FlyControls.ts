@@ -0,0 +1,174 @@
+import { Euler, MathUtils, OrthographicCamera, PerspectiveCamera, Vector3 } from "three";
+import { CameraIntent, IInputProvider } from "./Input/Abstractions";
+
+/**
+ * First-person controls: held move keys fly the camera, rotating looks around, and panning or zooming steps.
+ * The camera's orientation is read back from the camera on every update instead of being kept here,
+ * so these controls can take over from other controls (or from code that moved the camera) without a jump.
+ * Roll is always zero, so the camera's up stays +Y.
+ */
+export class FlyControls {
+  private static readonly TWO_PI = 2 * Math.PI;
+  /** Keeps pitch away from straight up or down, where yaw is undefined */
+  private static readonly PITCH_MARGIN = 0.001;
+
+  /** Whether intents are handled. Held move keys are still tracked while disabled. */
+  public Enabled = true;
+  /** World units moved per second */
+  public Speed = 10;
+  public LookSpeed = 1;
+  public InvertLookX = false;
+  public InvertLookY = false;
+  /** Lowest and highest that the camera can look, in radians from level */
+  public MinPitch = -Math.PI / 2;
+  public MaxPitch = Math.PI / 2;
+
+  private readonly inputProvider: IInputProvider;
+  private readonly intentListener = this.onIntent.bind(this);
+
+  /** Direction held with the move keys, relative to the camera: x is right, y is up and z is forward */
+  private readonly moveDirection = new Vector3();
+  /** Movement that hasn't been applied yet, relative to the camera like {@link moveDirection} */
+  private readonly pendingMove = new Vector3();
+  private pendingLookX = 0;
+  private pendingLookY = 0;
+
+  private followPath: Vector3[] = [];
+  /** How far along {@link followPath} the camera is */
+  private followDistance = 0;
+  /** Camera position relative to the path, which is kept while following it */
+  private followOffset: Vector3 | null = null;
+
+  private readonly euler = new Euler(0, 0, 0, "YXZ");
+
+  public constructor(inputProvider: IInputProvider) {
+    this.inputProvider = inputProvider;
+    this.inputProvider.AddListener(this.intentListener);
+  }
+
+  /** Whether the camera is gliding along a path */
+  public get Following(): boolean {
+    return this.followPath.length > 1;
+  }
+
+  /**
+   * Glides the camera along a path at {@link Speed}, keeping its offset from the path's first point.
+   * Looking around still works while following, but moving stops following.
+   */
+  public Follow(path: Vector3[]): void {
+    this.followPath = path.map((x) => x.clone());
+    this.followDistance = 0;
+    this.followOffset = null;
+  }
+
+  public StopFollowing(): void {
+    this.followPath = [];
+  }
+
+  /**
+   * Applies the intents received since the last update, and any held movement
+   * @param elapsedMilliseconds Time since the last update, which held keys and following move the camera for
+   * @returns Whether the camera changed
+   */
+  public Update(camera: PerspectiveCamera | OrthographicCamera, elapsedMilliseconds: number): boolean {
+    if (!this.Enabled) return false;
+
+    const seconds = elapsedMilliseconds / 1000;
+    const looked = this.pendingLookX !== 0 || this.pendingLookY !== 0;
+    const move = this.pendingMove.addScaledVector(this.moveDirection, this.Speed * seconds);
+    const moved = move.lengthSq() > 0;
+    const following = this.Following;
+
+    if (looked) {
+      const height = this.inputProvider.ViewportHeight;
+      const minPitch = Math.max(this.MinPitch, -Math.PI / 2 + FlyControls.PITCH_MARGIN);
+      const maxPitch = Math.min(this.MaxPitch, Math.PI / 2 - FlyControls.PITCH_MARGIN);
+      this.euler.setFromQuaternion(camera.quaternion);
+      this.euler.y -= (FlyControls.TWO_PI * this.pendingLookX * this.LookSpeed) / height;
+      this.euler.x = MathUtils.clamp(
+        this.euler.x - (FlyControls.TWO_PI * this.pendingLookY * this.LookSpeed) / height,
+        minPitch,
+        maxPitch
+      );
+      this.euler.z = 0;
+      camera.quaternion.setFromEuler(this.euler);
+    }
+
+    if (moved) {
+      const right = new Vector3(1, 0, 0).applyQuaternion(camera.quaternion);
+      const forward = new Vector3(0, 0, -1).applyQuaternion(camera.quaternion);
+      camera.position
+        .addScaledVector(right, move.x)
+        .addScaledVector(camera.up, move.y)
+        .addScaledVector(forward, move.z);
+    } else if (following) this.updateFollowing(camera, seconds);
+
+    this.pendingMove.set(0, 0, 0);
+    this.pendingLookX = 0;
+    this.pendingLookY = 0;
+    return looked || moved || following;
+  }
+
+  public Dispose(): void {
+    this.inputProvider.RemoveListener(this.intentListener);
+  }
+
+  private updateFollowing(camera: PerspectiveCamera | OrthographicCamera, seconds: number) {
+    if (!this.followOffset) this.followOffset = new Vector3().subVectors(camera.position, this.followPath[0]);
+    this.followDistance += this.Speed * seconds;
+
+    // Find the segment that the camera has gotten to
+    let start = 0;
+    let segmentStart = 0;
+    while (start < this.followPath.length - 1) {
+      const length = this.followPath[start].distanceTo(this.followPath[start + 1]);
+      if (segmentStart + length > this.followDistance) {
+        const point = new Vector3().lerpVectors(
+          this.followPath[start],
+          this.followPath[start + 1],
+          (this.followDistance - segmentStart) / length
+        );
+        camera.position.addVectors(point, this.followOffset);
+        return;
+      }
+      segmentStart += length;
+      start++;
+    }
+
+    // Reached the end
+    camera.position.addVectors(this.followPath[this.followPath.length - 1], this.followOffset);
+    this.StopFollowing();
+  }
+
+  private onIntent(intent: CameraIntent) {
+    // Track held keys even while disabled, so that keys held when switching to these controls still count
+    if (intent.Type === "move") {
+      this.moveDirection.set(intent.Right, intent.Up, intent.Forward);
+      if (this.Enabled && this.moveDirection.lengthSq() > 0) this.StopFollowing();
+      return;
+    }
+
+    if (!this.Enabled) return;
+
+    const height = this.inputProvider.ViewportHeight;
+    switch (intent.Type) {
+      case "rotate":
+        this.pendingLookX += this.InvertLookX ? -intent.DeltaX : intent.DeltaX;
+        this.pendingLookY += this.InvertLookY ? -intent.DeltaY : intent.DeltaY;
+        break;
+
+      case "pan":
+        // Like grabbing the world and pulling it: dragging across the whole viewport moves for one second
+        this.pendingMove.x -= (intent.DeltaX * this.Speed) / height;
+        this.pendingMove.z += (intent.DeltaY * this.Speed) / height;
+        this.StopFollowing();
+        break;
+
+      case "dolly":
+        // One wheel notch moves about a twentieth of a second
+        this.pendingMove.z -= Math.log(intent.Scale) * this.Speed;
+        this.StopFollowing();
+        break;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Something the user wants the camera to do, independent of which device asked for it.
+ * Deltas are in the same units as the provider's viewport size (e.g. CSS pixels), with right and down being positive.
+ */
+export type CameraIntent =
+  /** A gesture (like a drag or wheel turn) started */
+  | { Type: "start" }
+  /** The current gesture ended */
+  | { Type: "end" }
+  | { Type: "rotate"; DeltaX: number; DeltaY: number }
+  | { Type: "pan"; DeltaX: number; DeltaY: number }
+  /** Scale > 1 moves away from (zooms out of) the target, and scale < 1 moves toward it */
+  | { Type: "dolly"; Scale: number }
+  /**
+   * Which way the user is holding (e.g. WASD) keys to move, relative to where the camera looks.
+   * Each axis is -1, 0 or 1, and stays in effect until the next move intent.
+   */
+  | { Type: "move"; Forward: number; Right: number; Up: number };
+
+export type CameraIntentListener = (intent: CameraIntent) => void;
+
+/** Turns input from some device or source into {@link CameraIntent}s, e.g. for {@link OrbitControls} to consume */
+export interface IInputProvider {
+  /** Size of the input area, which rotation and pan deltas are relative to */
+  readonly ViewportWidth: number;
+  readonly ViewportHeight: number;
+  AddListener(listener: CameraIntentListener): void;
+  RemoveListener(listener: CameraIntentListener): void;
+  Dispose(): void;
+}
+
+/** An intent along with when it happened, in milliseconds since recording started */
+export interface TimedCameraIntent {
+  Time: number;
+  Intent: CameraIntent;
+}
@@ -0,0 +1,356 @@
+import { Vector2 } from "three";
+import { MouseAction, OneFingerAction, TwoFingerAction } from "../Abstractions";
+import { InputProviderBase } from "./InputProviderBase";
+
+type Gesture = MouseAction | "touch-rotate" | "touch-pan" | "touch-zoom-pan" | "touch-zoom-rotate";
+
+/**
+ * Turns pointer, touch, wheel and key events on a DOM element into camera intents, using configurable bindings.
+ *
+ *      Orbit - left mouse / touch: one-finger move
+ *      Zoom - middle mouse, or mousewheel / touch: two-finger spread or squish
+ *      Pan - right mouse, or left mouse + ctrl/meta/shiftKey, or arrow keys / touch: two-finger move
+ *      Move - WASD keys, and E/Q to move up/down
+ */
+export class DomInputProvider extends InputProviderBase {
+  /** How much one wheel notch (or one mouse move while dragging to zoom) dollies the camera */
+  private static readonly DOLLY_STEP = 0.95;
+
+  public MouseButtons: { Left: MouseAction; Middle: MouseAction; Right: MouseAction } = {
+    Left: "rotate",
+    Middle: "zoom",
+    Right: "pan",
+  };
+  public Touches: { One: OneFingerAction; Two: TwoFingerAction } = { One: "rotate", Two: "zoom-pan" };
+  /** KeyboardEvent.code of the keys that pan the camera. Empty codes disable that key. */
+  public Keys = { Left: "ArrowLeft", Up: "ArrowUp", Right: "ArrowRight", Down: "ArrowDown" };
+  /** Pixels panned per key press */
+  public KeyPanSpeed = 7;
+  /**
+   * KeyboardEvent.code of the keys that move the camera while held (see {@link MoveKeysEnabled}).
+   * These take priority over the pan keys.
+   */
+  public MoveKeys = { Forward: "KeyW", Backward: "KeyS", Left: "KeyA", Right: "KeyD", Up: "KeyE", Down: "KeyQ" };
+
+  private readonly element: HTMLElement;
+  private keyEventTarget: GlobalEventHandlers | null = null;
+
+  private readonly eventListeners = {
+    contextmenu: this.onContextMenu.bind(this),
+    pointerdown: this.onPointerDown.bind(this),
+    pointercancel: this.onPointerCancel.bind(this),
+    wheel: this.onMouseWheel.bind(this),
+    keydown: this.onKeyDown.bind(this),
+    keyup: this.onKeyUp.bind(this),
+    blur: this.onBlur.bind(this),
+    pointermove: this.onPointerMove.bind(this),
+    pointerup: this.onPointerUp.bind(this),
+  };
+
+  private gesture: Gesture = "none";
+  private readonly pointers: PointerEvent[] = [];
+  private readonly pointerPositions = new Map<number, Vector2>();
+  /** Position of the pointer (or center of the touches) when the last intent was emitted */
+  private readonly lastPosition = new Vector2();
+  /** Distance between two touches when the last intent was emitted */
+  private lastPinchDistance = 0;
+  private readonly heldMoveKeys = new Set<string>();
+  private moveKeysEnabled = true;
+
+  public constructor(element: HTMLElement) {
+    super();
+
+    this.element = element;
+    this.element.style.touchAction = "none"; // disable touch scroll
+
+    this.element.addEventListener("contextmenu", this.eventListeners.contextmenu);
+    this.element.addEventListener("pointerdown", this.eventListeners.pointerdown);
+    this.element.addEventListener("pointercancel", this.eventListeners.pointercancel);
+    this.element.addEventListener("wheel", this.eventListeners.wheel, { passive: false });
+  }
+
+  public get ViewportWidth(): number {
+    return this.element.clientWidth;
+  }
+
+  public get ViewportHeight(): number {
+    return this.element.clientHeight;
+  }
+
+  /**
+   * Whether the move keys are handled, e.g. only while flying.
+   * While they aren't, they're left alone, so that pan keys and other shortcuts on the same keys still work.
+   */
+  public get MoveKeysEnabled(): boolean {
+    return this.moveKeysEnabled;
+  }
+
+  public set MoveKeysEnabled(enabled: boolean) {
+    this.moveKeysEnabled = enabled;
+    if (!enabled) this.releaseMoveKeys();
+  }
+
+  /** Pans and moves with the keys (see {@link Keys} and {@link MoveKeys}) pressed while the given target has focus */
+  public ListenToKeyEvents(target: GlobalEventHandlers): void {
+    this.removeKeyEventListeners();
+    target.addEventListener("keydown", this.eventListeners.keydown);
+    target.addEventListener("keyup", this.eventListeners.keyup);
+    target.addEventListener("blur", this.eventListeners.blur);
+    this.keyEventTarget = target;
+  }
+
+  public Dispose(): void {
+    super.Dispose();
+
+    this.element.removeEventListener("contextmenu", this.eventListeners.contextmenu);
+    this.element.removeEventListener("pointerdown", this.eventListeners.pointerdown);
+    this.element.removeEventListener("pointercancel", this.eventListeners.pointercancel);
+    this.element.removeEventListener("wheel", this.eventListeners.wheel);
+    this.element.removeEventListener("pointermove", this.eventListeners.pointermove);
+    this.element.removeEventListener("pointerup", this.eventListeners.pointerup);
+    this.removeKeyEventListeners();
+  }
+
+  private removeKeyEventListeners() {
+    this.keyEventTarget?.removeEventListener("keydown", this.eventListeners.keydown);
+    this.keyEventTarget?.removeEventListener("keyup", this.eventListeners.keyup);
+    this.keyEventTarget?.removeEventListener("blur", this.eventListeners.blur);
+  }
+
+  //
+  // Event handlers - FSM: listen for events and reset state
+  //
+
+  private onPointerDown(event: PointerEvent) {
+    if (this.pointers.length === 0) {
+      this.element.setPointerCapture(event.pointerId);
+      this.element.addEventListener("pointermove", this.eventListeners.pointermove);
+      this.element.addEventListener("pointerup", this.eventListeners.pointerup);
+    }
+
+    this.pointers.push(event);
+
+    if (event.pointerType === "touch") this.onTouchStart(event);
+    else this.onMouseDown(event);
+  }
+
+  private onPointerMove(event: PointerEvent) {
+    if (event.pointerType === "touch") this.onTouchMove(event.pointerId, event.pageX, event.pageY);
+    else this.onMouseMove(event.clientX, event.clientY);
+  }
+
+  private onPointerUp(event: PointerEvent) {
+    if (this.gesture !== "none") this.emit({ Type: "end" });
+    this.gesture = "none";
+
+    this.removePointer(event.pointerId);
+
+    if (this.pointers.length > 0) return;
+
+    this.element.releasePointerCapture(event.pointerId);
+    this.element.removeEventListener("pointermove", this.eventListeners.pointermove);
+    this.element.removeEventListener("pointerup", this.eventListeners.pointerup);
+  }
+
+  private onPointerCancel(event: PointerEvent) {
+    this.removePointer(event.pointerId);
+  }
+
+  private onMouseDown(event: PointerEvent) {
+    let action: MouseAction;
+    switch (event.button) {
+      case 0:
+        action = this.MouseButtons.Left;
+        break;
+      case 1:
+        action = this.MouseButtons.Middle;
+        break;
+      case 2:
+        action = this.MouseButtons.Right;
+        break;
+      default:
+        action = "none";
+    }
+
+    // Modifier keys swap rotating and panning
+    if (event.ctrlKey || event.metaKey || event.shiftKey) {
+      if (action === "rotate") action = "pan";
+      else if (action === "pan") action = "rotate";
+    }
+
+    this.gesture = action;
+    this.lastPosition.set(event.clientX, event.clientY);
+    if (this.gesture !== "none") this.emit({ Type: "start" });
+  }
+
+  private onMouseMove(x: number, y: number) {
+    const deltaX = x - this.lastPosition.x;
+    const deltaY = y - this.lastPosition.y;
+    this.lastPosition.set(x, y);
+
+    switch (this.gesture) {
+      case "rotate":
+        this.emit({ Type: "rotate", DeltaX: deltaX, DeltaY: deltaY });
+        break;
+
+      case "zoom":
+        if (deltaY !== 0) this.emitDollyStep(deltaY > 0);
+        break;
+
+      case "pan":
+        this.emit({ Type: "pan", DeltaX: deltaX, DeltaY: deltaY });
+        break;
+    }
+  }
+
+  private onMouseWheel(event: WheelEvent) {
+    if (this.gesture !== "none" && this.gesture !== "rotate") return;
+
+    event.preventDefault();
+    this.emit({ Type: "start" });
+    if (event.deltaY !== 0) this.emitDollyStep(event.deltaY > 0);
+    this.emit({ Type: "end" });
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    // Don't steal keys from form inputs
+    const target = event.target as HTMLElement | null;
+    if (event.code === "" || (target && ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName))) return;
+
+    // Browser shortcuts (like Ctrl+S) aren't moves
+    const isShortcut = event.ctrlKey || event.metaKey || event.altKey;
+    if (this.moveKeysEnabled && !isShortcut && Object.values(this.MoveKeys).includes(event.code)) {
+      event.preventDefault();
+      if (this.heldMoveKeys.has(event.code)) return; // key repeat
+      this.heldMoveKeys.add(event.code);
+      this.emitMove();
+      return;
+    }
+
+    let deltaX = 0;
+    let deltaY = 0;
+    switch (event.code) {
+      case this.Keys.Up:
+        deltaY = this.KeyPanSpeed;
+        break;
+      case this.Keys.Down:
+        deltaY = -this.KeyPanSpeed;
+        break;
+      case this.Keys.Left:
+        deltaX = this.KeyPanSpeed;
+        break;
+      case this.Keys.Right:
+        deltaX = -this.KeyPanSpeed;
+        break;
+      default:
+        return;
+    }
+
+    // prevent the browser from scrolling on cursor keys
+    event.preventDefault();
+    this.emit({ Type: "pan", DeltaX: deltaX, DeltaY: deltaY });
+  }
+
+  private onKeyUp(event: KeyboardEvent) {
+    if (this.heldMoveKeys.delete(event.code)) this.emitMove();
+  }
+
+  /** Key up events go missing while the page doesn't have focus, so stop moving rather than moving forever */
+  private onBlur() {
+    this.releaseMoveKeys();
+  }
+
+  private releaseMoveKeys() {
+    if (this.heldMoveKeys.size === 0) return;
+    this.heldMoveKeys.clear();
+    this.emitMove();
+  }
+
+  private onTouchStart(event: PointerEvent) {
+    this.trackPointer(event.pointerId, event.pageX, event.pageY);
+
+    if (this.pointers.length === 1)
+      this.gesture = this.Touches.One === "rotate" ? "touch-rotate" : "touch-pan";
+    else if (this.pointers.length === 2) {
+      this.gesture = this.Touches.Two === "zoom-pan" ? "touch-zoom-pan" : "touch-zoom-rotate";
+      this.lastPinchDistance = this.getPinchDistance();
+    }
+    else
+      this.gesture = "none";
+
+    this.lastPosition.copy(this.getTouchCenter());
+    if (this.gesture !== "none") this.emit({ Type: "start" });
+  }
+
+  private onTouchMove(pointerId: number, x: number, y: number) {
+    this.trackPointer(pointerId, x, y);
+    if (this.gesture === "none") return;
+
+    const center = this.getTouchCenter();
+    const deltaX = center.x - this.lastPosition.x;
+    const deltaY = center.y - this.lastPosition.y;
+    this.lastPosition.copy(center);
+
+    if (this.gesture === "touch-zoom-pan" || this.gesture === "touch-zoom-rotate") {
+      const distance = this.getPinchDistance();
+      if (distance > 0 && this.lastPinchDistance > 0)
+        this.emit({ Type: "dolly", Scale: this.lastPinchDistance / distance });
+      this.lastPinchDistance = distance;
+    }
+
+    if (this.gesture === "touch-rotate" || this.gesture === "touch-zoom-rotate")
+      this.emit({ Type: "rotate", DeltaX: deltaX, DeltaY: deltaY });
+    else
+      this.emit({ Type: "pan", DeltaX: deltaX, DeltaY: deltaY });
+  }
+
+  private onContextMenu(event: MouseEvent) {
+    event.preventDefault();
+  }
+
+  private emitDollyStep(dollyOut: boolean) {
+    this.emit({ Type: "dolly", Scale: dollyOut ? 1 / DomInputProvider.DOLLY_STEP : DomInputProvider.DOLLY_STEP });
+  }
+
+  private emitMove() {
+    const axis = (positiveKey: string, negativeKey: string) =>
+      (this.heldMoveKeys.has(positiveKey) ? 1 : 0) - (this.heldMoveKeys.has(negativeKey) ? 1 : 0);
+    this.emit({
+      Type: "move",
+      Forward: axis(this.MoveKeys.Forward, this.MoveKeys.Backward),
+      Right: axis(this.MoveKeys.Right, this.MoveKeys.Left),
+      Up: axis(this.MoveKeys.Up, this.MoveKeys.Down),
+    });
+  }
+
+  /** @returns The position of the only touch, or the center of the first two touches */
+  private getTouchCenter(): Vector2 {
+    const positions = this.pointers.slice(0, 2).map((x) => this.pointerPositions.get(x.pointerId)!);
+    return positions.reduce((sum, x) => sum.add(x), new Vector2()).divideScalar(positions.length);
+  }
+
+  private getPinchDistance(): number {
+    if (this.pointers.length < 2) return 0;
+    const first = this.pointerPositions.get(this.pointers[0].pointerId)!;
+    const second = this.pointerPositions.get(this.pointers[1].pointerId)!;
+    return first.distanceTo(second);
+  }
+
+  private removePointer(pointerId: number) {
+    this.pointerPositions.delete(pointerId);
+
+    const index = this.pointers.findIndex((x) => x.pointerId === pointerId);
+    if (index >= 0) this.pointers.splice(index, 1);
+  }
+
+  private trackPointer(pointerId: number, x: number, y: number) {
+    let position = this.pointerPositions.get(pointerId);
+
+    if (position === undefined) {
+      position = new Vector2();
+      this.pointerPositions.set(pointerId, position);
+    }
+
+    position.set(x, y);
+  }
+}
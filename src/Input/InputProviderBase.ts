@@ -0,0 +1,26 @@
+import { CameraIntent, CameraIntentListener, IInputProvider } from "./Abstractions";
+
+/** Keeps track of listeners, so that input providers only need to turn their input into intents */
+export abstract class InputProviderBase implements IInputProvider {
+  private readonly listeners: CameraIntentListener[] = [];
+
+  public abstract get ViewportWidth(): number;
+  public abstract get ViewportHeight(): number;
+
+  public AddListener(listener: CameraIntentListener): void {
+    if (!this.listeners.includes(listener)) this.listeners.push(listener);
+  }
+
+  public RemoveListener(listener: CameraIntentListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index >= 0) this.listeners.splice(index, 1);
+  }
+
+  public Dispose(): void {
+    this.listeners.length = 0;
+  }
+
+  protected emit(intent: CameraIntent): void {
+    this.listeners.slice().forEach((x) => x(intent));
+  }
+}
@@ -0,0 +1,36 @@
+import { CameraIntent, IInputProvider, TimedCameraIntent } from "./Abstractions";
+
+/** Records the intents of an input provider, so that they can be replayed with a {@link ScriptedInputProvider} */
+export class InputRecorder {
+  private readonly provider: IInputProvider;
+  private readonly now: () => number;
+  private readonly listener = (intent: CameraIntent) => this.onIntent(intent);
+
+  private recording: TimedCameraIntent[] = [];
+  private startTime = 0;
+
+  /** @param now Returns the current time in milliseconds. Replace it to record against a fake clock. */
+  public constructor(provider: IInputProvider, now: () => number = () => performance.now()) {
+    this.provider = provider;
+    this.now = now;
+  }
+
+  public get Recording(): readonly TimedCameraIntent[] {
+    return this.recording;
+  }
+
+  /** Starts a new recording, discarding the previous one */
+  public Start(): void {
+    this.recording = [];
+    this.startTime = this.now();
+    this.provider.AddListener(this.listener);
+  }
+
+  public Stop(): void {
+    this.provider.RemoveListener(this.listener);
+  }
+
+  private onIntent(intent: CameraIntent) {
+    this.recording.push({ Time: this.now() - this.startTime, Intent: intent });
+  }
+}
@@ -0,0 +1,55 @@
+import { CameraIntent, TimedCameraIntent } from "./Abstractions";
+import { InputProviderBase } from "./InputProviderBase";
+
+/**
+ * Emits intents from code instead of a device,
+ * e.g. to replay a recorded session or to test camera behavior without a browser.
+ * Scripts are played back against a clock that only moves when {@link Advance} is called, so playback is deterministic.
+ */
+export class ScriptedInputProvider extends InputProviderBase {
+  private readonly viewportWidth: number;
+  private readonly viewportHeight: number;
+
+  private script: TimedCameraIntent[] = [];
+  private nextIndex = 0;
+  private time = 0;
+
+  public constructor(viewportWidth: number, viewportHeight: number) {
+    super();
+
+    this.viewportWidth = viewportWidth;
+    this.viewportHeight = viewportHeight;
+  }
+
+  public get ViewportWidth(): number {
+    return this.viewportWidth;
+  }
+
+  public get ViewportHeight(): number {
+    return this.viewportHeight;
+  }
+
+  /** Whether a script is loaded with intents that haven't been emitted yet */
+  public get Playing(): boolean {
+    return this.nextIndex < this.script.length;
+  }
+
+  /** Emits an intent immediately */
+  public Emit(intent: CameraIntent): void {
+    this.emit(intent);
+  }
+
+  /** Starts playing a script from the beginning, replacing any script that was already playing */
+  public Play(script: TimedCameraIntent[]): void {
+    this.script = script.slice().sort((a, b) => a.Time - b.Time);
+    this.nextIndex = 0;
+    this.time = 0;
+  }
+
+  /** Moves the playback clock forward, emitting every intent that is now due */
+  public Advance(milliseconds: number): void {
+    this.time += milliseconds;
+    while (this.nextIndex < this.script.length && this.script[this.nextIndex].Time <= this.time)
+      this.emit(this.script[this.nextIndex++].Intent);
+  }
+}
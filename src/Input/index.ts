@@ -0,0 +1,3 @@
+export * from "./DomInputProvider";
+export * from "./InputRecorder";
+export * from "./ScriptedInputProvider";
@@ -0,0 +1,397 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  DynamicDrawUsage,
+  Group,
+  InstancedMesh,
+  LineBasicMaterial,
+  LineSegments,
+  Material,
+  Matrix4,
+  MeshBasicMaterial,
+  Vector3,
+} from "three";
+import { Node } from "./Rendering/Abstractions";
+
+/**
+ * Draws every node of a graph with one instanced mesh, and every parent link with one batched line segment buffer,
+ * so that graphs with hundreds of thousands of nodes take only two draw calls.
+ * Nodes and parent links keep their slot in these buffers across graph changes (matched by ID), and only the
+ * matrices, colors and line segments that changed are written and uploaded.
+ */
+export class InstancedGraph extends Group {
+  private static readonly INITIAL_CAPACITY = 1024;
+
+  private readonly nodeGeometry: BufferGeometry;
+  private readonly nodeMaterial: Material;
+  private readonly defaultNodeColor = new Color();
+  /** Scale of every node, which multiplies each node's own scale */
+  private baseScale = 1;
+  private nodeMesh: InstancedMesh;
+
+  private readonly edgeGeometry = new BufferGeometry();
+  private readonly edgeLines: LineSegments;
+  /** Both ends of every edge slot's line segment, 6 floats per edge slot */
+  private edgePositions = new Float32Array(0);
+  /** Instance indices of every edge slot's parent and child, 2 per edge slot, or -1 for free edge slots */
+  private edgeEnds: number[] = [];
+  /** Edge slots by the IDs of their parent and child */
+  private readonly edgeIndices = new Map<string, number>();
+  private freeEdgeSlots: number[] = [];
+  /** Edge slots of each instance's parent and child links, by instance index */
+  private instanceEdges: number[][] = [];
+
+  private nodes: Node[] = [];
+  /** Node drawn by each instance, or null for free instances, which aren't drawn */
+  private instances: (Node | null)[] = [];
+  private readonly indices = new Map<string, number>();
+  private freeInstances: number[] = [];
+  private scales = new Float32Array(InstancedGraph.INITIAL_CAPACITY);
+  /** How far each node has grown in, from 0 (not drawn) to 1, by instance index */
+  private growths = new Float32Array(InstancedGraph.INITIAL_CAPACITY);
+  /** Where each instance was last drawn, 3 floats per instance, so that nodes that didn't move aren't redrawn */
+  private instancePositions = new Float32Array(3 * InstancedGraph.INITIAL_CAPACITY);
+  /** IDs of nodes that aren't drawn, along with their parent links */
+  private hiddenIds = new Set<string>();
+
+  private readonly tempMatrix = new Matrix4();
+  private readonly tempPosition = new Vector3();
+  private readonly tempParentPosition = new Vector3();
+  private readonly tempChildPosition = new Vector3();
+
+  public constructor(nodeGeometry: BufferGeometry, nodeColor: Color, edgeMaterial: LineBasicMaterial) {
+    super();
+
+    this.nodeGeometry = nodeGeometry;
+    this.defaultNodeColor.copy(nodeColor);
+    this.nodeMaterial = new MeshBasicMaterial({ color: 0xffffff }); // Instance colors multiply this color
+    this.nodeMesh = this.createNodeMesh(InstancedGraph.INITIAL_CAPACITY);
+    this.add(this.nodeMesh);
+
+    this.edgeLines = new LineSegments(this.edgeGeometry, edgeMaterial);
+    this.edgeLines.name = "edges";
+    this.edgeLines.frustumCulled = false;
+    this.add(this.edgeLines);
+  }
+
+  /** Nodes in the graph, in the order they were last set */
+  public get Nodes(): readonly Node[] {
+    return this.nodes;
+  }
+
+  /** The instanced mesh that draws all nodes, e.g. for raycasting */
+  public get NodeMesh(): InstancedMesh {
+    return this.nodeMesh;
+  }
+
+  /**
+   * Replaces the graph. Nodes and parent links whose IDs were already present keep their slots, and are only redrawn
+   * if they moved. Removed nodes free their slots for new nodes. Every node starts fully grown.
+   * @param positions Position of every node in the new graph
+   */
+  public SetGraph(positions: Map<Node, Vector3>): void {
+    const newIds = new Set<string>();
+    positions.forEach((_, node) => newIds.add(node.Id));
+    const newEdgeIds = new Set<string>();
+    positions.forEach((_, child) =>
+      child.Parents.forEach((parent) => {
+        if (newIds.has(parent.Id)) newEdgeIds.add(InstancedGraph.edgeId(parent, child));
+      })
+    );
+
+    // Free the slots of parent links and nodes that are gone. Links go first, since they refer to node slots.
+    this.edgeIndices.forEach((edge, edgeId) => {
+      if (!newEdgeIds.has(edgeId)) this.removeEdge(edgeId, edge);
+    });
+    this.indices.forEach((index, nodeId) => {
+      if (!newIds.has(nodeId)) this.removeInstance(nodeId, index);
+    });
+    this.trimFreeSlots();
+
+    // Add new nodes, and adopt the latest Node objects for existing IDs
+    this.nodes = Array.from(positions.keys());
+    this.nodes.forEach((node) => {
+      const index = this.indices.get(node.Id);
+      if (index === undefined) this.addInstance(node, positions.get(node)!);
+      else {
+        this.instances[index] = node;
+        if (this.growths[index] !== 1) {
+          this.growths[index] = 1;
+          this.drawInstance(index);
+        }
+      }
+    });
+    this.nodeMesh.count = this.instances.length;
+
+    this.nodes.forEach((child) =>
+      child.Parents.forEach((parent) => {
+        const edgeId = InstancedGraph.edgeId(parent, child);
+        if (newEdgeIds.has(edgeId) && !this.edgeIndices.has(edgeId)) this.addEdge(edgeId, parent, child);
+      })
+    );
+    this.edgeGeometry.setDrawRange(0, this.edgeEnds.length);
+
+    this.UpdatePositions(positions);
+  }
+
+  /** Moves nodes and their parent links to new positions, e.g. while an incremental layout is running */
+  public UpdatePositions(positions: Map<Node, Vector3>): void {
+    positions.forEach((position, node) => {
+      const index = this.indices.get(node.Id);
+      if (index === undefined || equalsStored(this.instancePositions, 3 * index, position.x, position.y, position.z))
+        return;
+
+      position.toArray(this.instancePositions, 3 * index);
+      this.drawInstance(index);
+      this.instanceEdges[index].forEach((edge) => this.drawEdge(edge));
+    });
+  }
+
+  public Clear(): void {
+    this.nodes = [];
+    this.instances = [];
+    this.indices.clear();
+    this.freeInstances = [];
+    this.instanceEdges = [];
+    this.hiddenIds.clear();
+    this.edgeEnds = [];
+    this.edgeIndices.clear();
+    this.freeEdgeSlots = [];
+    this.nodeMesh.count = 0;
+    this.edgeGeometry.setDrawRange(0, 0);
+  }
+
+  public Dispose(): void {
+    this.nodeMesh.dispose();
+    this.nodeMaterial.dispose();
+    this.edgeGeometry.dispose();
+  }
+
+  /** @returns The node with the given ID, or null if it is not in the graph */
+  public GetNode(nodeId: string): Node | null {
+    const index = this.indices.get(nodeId);
+    return index === undefined ? null : this.instances[index];
+  }
+
+  public SetNodeColor(node: Node, color: Color): void {
+    const index = this.indices.get(node.Id);
+    if (index !== undefined) this.setInstanceColor(index, color);
+  }
+
+  /** Recolors every node, including nodes that were given their own color */
+  public SetDefaultNodeColor(color: Color): void {
+    this.defaultNodeColor.copy(color);
+    this.indices.forEach((index) => this.setInstanceColor(index, color));
+  }
+
+  /** Hides the given nodes and their parent links, and shows every other node */
+  public SetHiddenNodes(nodes: Iterable<Node>): void {
+    const oldHiddenIds = this.hiddenIds;
+    this.hiddenIds = new Set(Array.from(nodes, (x) => x.Id));
+    const changedIds = [
+      ...Array.from(oldHiddenIds).filter((x) => !this.hiddenIds.has(x)),
+      ...Array.from(this.hiddenIds).filter((x) => !oldHiddenIds.has(x)),
+    ];
+    changedIds.forEach((nodeId) => {
+      const index = this.indices.get(nodeId);
+      if (index === undefined) return;
+      this.drawInstance(index);
+      this.instanceEdges[index].forEach((edge) => this.drawEdge(edge));
+    });
+  }
+
+  /**
+   * Grows nodes in (or out): a growing node is drawn smaller, and its parent links only reach part of the way to it
+   * @param growths How far each node has grown, from 0 (not drawn) to 1 (drawn normally)
+   */
+  public SetNodeGrowths(growths: Map<Node, number>): void {
+    growths.forEach((growth, node) => {
+      const index = this.indices.get(node.Id);
+      if (index === undefined || this.growths[index] === growth) return;
+      this.growths[index] = growth;
+      this.drawInstance(index);
+      this.instanceEdges[index].forEach((edge) => this.drawEdge(edge));
+    });
+  }
+
+  public SetBaseNodeScale(scale: number): void {
+    this.baseScale = scale;
+    this.indices.forEach((index) => this.drawInstance(index));
+  }
+
+  public SetNodeScale(node: Node, scale: number): void {
+    const index = this.indices.get(node.Id);
+    if (index === undefined || this.scales[index] === scale) return;
+    this.scales[index] = scale;
+    this.drawInstance(index);
+  }
+
+  private static edgeId(parent: Node, child: Node): string {
+    return `${parent.Id} ${child.Id}`;
+  }
+
+  private drawInstance(index: number) {
+    const node = this.instances[index];
+    const scale =
+      node === null || this.hiddenIds.has(node.Id) ? 0 : this.baseScale * this.scales[index] * this.growths[index];
+    this.tempPosition.fromArray(this.instancePositions, 3 * index);
+    this.tempMatrix.makeScale(scale, scale, scale).setPosition(this.tempPosition);
+    this.nodeMesh.setMatrixAt(index, this.tempMatrix);
+    markChanged(this.nodeMesh.instanceMatrix, index);
+  }
+
+  private setInstanceColor(index: number, color: Color) {
+    if (equalsStored(this.nodeMesh.instanceColor!.array, 3 * index, color.r, color.g, color.b)) return;
+    this.nodeMesh.setColorAt(index, color);
+    markChanged(this.nodeMesh.instanceColor!, index);
+  }
+
+  private drawEdge(edge: number) {
+    const parentIndex = this.edgeEnds[2 * edge];
+    const childIndex = this.edgeEnds[2 * edge + 1];
+    const parentPosition = this.tempParentPosition.set(0, 0, 0);
+    const childPosition = this.tempChildPosition.set(0, 0, 0);
+
+    // Collapse free slots and links to hidden nodes into a point, which draws nothing.
+    // Grow links toward growing children.
+    if (parentIndex >= 0) {
+      parentPosition.fromArray(this.instancePositions, 3 * parentIndex);
+      childPosition.fromArray(this.instancePositions, 3 * childIndex);
+      const parentId = this.instances[parentIndex]!.Id;
+      const childId = this.instances[childIndex]!.Id;
+      if (this.hiddenIds.has(parentId) || this.hiddenIds.has(childId)) parentPosition.copy(childPosition);
+      else childPosition.lerpVectors(parentPosition, childPosition, this.growths[childIndex]);
+    }
+    parentPosition.toArray(this.edgePositions, 6 * edge);
+    childPosition.toArray(this.edgePositions, 6 * edge + 3);
+    markChanged(this.edgeGeometry.getAttribute("position") as BufferAttribute, 2 * edge, 2);
+  }
+
+  private addInstance(node: Node, position: Vector3) {
+    const index = this.freeInstances.pop() ?? this.instances.length;
+    if (index >= this.scales.length) this.growCapacity();
+
+    this.instances[index] = node;
+    this.indices.set(node.Id, index);
+    this.instanceEdges[index] = [];
+    this.scales[index] = 1;
+    this.growths[index] = 1;
+    position.toArray(this.instancePositions, 3 * index);
+    this.drawInstance(index);
+    this.nodeMesh.setColorAt(index, this.defaultNodeColor);
+    markChanged(this.nodeMesh.instanceColor!, index);
+  }
+
+  private removeInstance(nodeId: string, index: number) {
+    this.indices.delete(nodeId);
+    this.instances[index] = null;
+    this.instanceEdges[index] = [];
+    this.freeInstances.push(index);
+    this.drawInstance(index);
+  }
+
+  private addEdge(edgeId: string, parent: Node, child: Node) {
+    const edge = this.freeEdgeSlots.pop() ?? this.edgeEnds.length / 2;
+    if (6 * edge >= this.edgePositions.length) this.growEdgeCapacity();
+
+    const parentIndex = this.indices.get(parent.Id)!;
+    const childIndex = this.indices.get(child.Id)!;
+    this.edgeEnds[2 * edge] = parentIndex;
+    this.edgeEnds[2 * edge + 1] = childIndex;
+    this.edgeIndices.set(edgeId, edge);
+    this.instanceEdges[parentIndex].push(edge);
+    this.instanceEdges[childIndex].push(edge);
+    this.drawEdge(edge);
+  }
+
+  private removeEdge(edgeId: string, edge: number) {
+    [this.edgeEnds[2 * edge], this.edgeEnds[2 * edge + 1]].forEach((index) => {
+      this.instanceEdges[index] = this.instanceEdges[index].filter((x) => x !== edge);
+    });
+    this.edgeEnds[2 * edge] = -1;
+    this.edgeEnds[2 * edge + 1] = -1;
+    this.edgeIndices.delete(edgeId);
+    this.freeEdgeSlots.push(edge);
+    this.drawEdge(edge);
+  }
+
+  /** Drops free slots from the end of the buffers, so that they aren't drawn */
+  private trimFreeSlots() {
+    while (this.instances.length > 0 && this.instances[this.instances.length - 1] === null) this.instances.pop();
+    this.instanceEdges.length = this.instances.length;
+    this.freeInstances = this.freeInstances.filter((x) => x < this.instances.length);
+
+    while (this.edgeEnds.length > 0 && this.edgeEnds[this.edgeEnds.length - 1] < 0) this.edgeEnds.length -= 2;
+    this.freeEdgeSlots = this.freeEdgeSlots.filter((x) => 2 * x < this.edgeEnds.length);
+  }
+
+  /** Instanced meshes have a fixed capacity, so replace the mesh with one twice as large */
+  private growCapacity() {
+    const capacity = 2 * this.scales.length;
+    const newMesh = this.createNodeMesh(capacity);
+    (newMesh.instanceMatrix.array as Float32Array).set(this.nodeMesh.instanceMatrix.array);
+    (newMesh.instanceColor!.array as Float32Array).set(this.nodeMesh.instanceColor!.array);
+
+    const newScales = new Float32Array(capacity);
+    newScales.set(this.scales);
+    this.scales = newScales;
+    const newGrowths = new Float32Array(capacity);
+    newGrowths.set(this.growths);
+    this.growths = newGrowths;
+    const newPositions = new Float32Array(3 * capacity);
+    newPositions.set(this.instancePositions);
+    this.instancePositions = newPositions;
+
+    this.remove(this.nodeMesh);
+    this.nodeMesh.dispose();
+    this.nodeMesh = newMesh;
+    this.add(this.nodeMesh);
+  }
+
+  /** Replaces the line segment buffer with one twice as large (the whole new buffer is uploaded) */
+  private growEdgeCapacity() {
+    const newPositions = new Float32Array(Math.max(2 * this.edgePositions.length, 6 * InstancedGraph.INITIAL_CAPACITY));
+    newPositions.set(this.edgePositions);
+    this.edgePositions = newPositions;
+    this.edgeGeometry.setAttribute("position", new BufferAttribute(this.edgePositions, 3).setUsage(DynamicDrawUsage));
+  }
+
+  private createNodeMesh(capacity: number): InstancedMesh {
+    const mesh = new InstancedMesh(this.nodeGeometry, this.nodeMaterial, capacity);
+    mesh.name = "nodes";
+    mesh.count = this.instances.length;
+    mesh.frustumCulled = false; // Bounds only cover the base geometry, not the instances
+    mesh.instanceMatrix.setUsage(DynamicDrawUsage);
+
+    // Create the instance color buffer up front, so that the shader is compiled with instance colors
+    mesh.setColorAt(0, this.defaultNodeColor);
+    return mesh;
+  }
+}
+
+/**
+ * Uploads some items of an attribute on the next render. Only the range that covers every item changed since the last
+ * upload is uploaded, rather than the whole attribute.
+ */
+function markChanged(attribute: BufferAttribute, index: number, count = 1) {
+  const range = attribute.updateRange;
+  const start = index * attribute.itemSize;
+  const end = (index + count) * attribute.itemSize;
+  if (range.count >= 0) {
+    const rangeEnd = Math.max(range.offset + range.count, end);
+    range.offset = Math.min(range.offset, start);
+    range.count = rangeEnd - range.offset;
+  } else {
+    range.offset = start;
+    range.count = end - start;
+  }
+  attribute.needsUpdate = true;
+}
+
+/** @returns Whether three values are the ones stored in a 32-bit float array at an offset, once rounded to 32 bits */
+function equalsStored(array: ArrayLike<number>, offset: number, x: number, y: number, z: number): boolean {
+  return (
+    array[offset] === Math.fround(x) && array[offset + 1] === Math.fround(y) && array[offset + 2] === Math.fround(z)
+  );
+}
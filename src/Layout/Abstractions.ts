@@ -0,0 +1,31 @@
+import { Vector3 } from "three";
+import { Node } from "../Rendering/Abstractions";
+
+export interface ILayoutEngine {
+  /** Computes a position for every node reachable from the given leaf nodes */
+  ComputeLayout(leafNodes: Node[]): Map<Node, Vector3>;
+}
+
+/**
+ * A layout that converges over many steps, like a physics simulation.
+ * Each step updates the positions returned by the last call to {@link ILayoutEngine.ComputeLayout} in place.
+ */
+export interface IIncrementalLayoutEngine extends ILayoutEngine {
+  /** Set to true to stop {@link Step} from moving nodes */
+  Paused: boolean;
+  /**
+   * Advances the layout by one step
+   * @returns True if any node moved
+   */
+  Step(): boolean;
+  /** Restarts a layout that has cooled down, so that nodes start moving again */
+  Reheat(): void;
+  /** Fixes a node at its current position, or at the given position */
+  Pin(node: Node, position?: Vector3): void;
+  Unpin(node: Node): void;
+  IsPinned(node: Node): boolean;
+}
+
+export function isIncrementalLayoutEngine(layoutEngine: ILayoutEngine): layoutEngine is IIncrementalLayoutEngine {
+  return "Step" in layoutEngine;
+}
@@ -0,0 +1,210 @@
+import { Vector3 } from "three";
+import { Node } from "../Rendering/Abstractions";
+import { IIncrementalLayoutEngine } from "./Abstractions";
+import { LayeredLayoutEngine } from "./LayeredLayoutEngine";
+
+export interface ForceDirectedLayoutOptions {
+  /** Rest length of the springs along parent links */
+  SpringLength: number;
+  SpringStrength: number;
+  RepulsionStrength: number;
+  /** Nodes farther apart than this do not repel each other, which keeps each step linear in the number of nodes */
+  RepulsionRadius: number;
+  /** How strongly nodes are pulled toward their commit time along the x axis. Set to 0 to disable. */
+  TimeAxisStrength: number;
+  /** Fraction of the remaining "heat" lost every step */
+  AlphaDecay: number;
+  /** The layout stops moving nodes once its heat drops below this value */
+  AlphaMin: number;
+  /** Fraction of each node's velocity lost every step, like friction */
+  VelocityDecay: number;
+}
+
+/**
+ * Layout that treats parent links as springs and nodes as repelling charges, optionally pulled toward a time axis.
+ * Nodes start from a {@link LayeredLayoutEngine} layout, so the simulation is deterministic.
+ * The simulation "cools down" as it runs, until {@link Reheat} is called.
+ */
+export class ForceDirectedLayoutEngine implements IIncrementalLayoutEngine {
+  public static readonly DEFAULT_OPTIONS: ForceDirectedLayoutOptions = {
+    SpringLength: 2,
+    SpringStrength: 0.1,
+    RepulsionStrength: 1,
+    RepulsionRadius: 6,
+    TimeAxisStrength: 0,
+    AlphaDecay: 0.01,
+    AlphaMin: 0.001,
+    VelocityDecay: 0.4,
+  };
+
+  private static readonly JITTER = 0.1;
+
+  public readonly Options: ForceDirectedLayoutOptions;
+  public Paused = false;
+
+  private alpha = 1;
+  private nodes: Node[] = [];
+  private indices = new Map<Node, number>();
+  private positions: Vector3[] = [];
+  private timeAxisTargets: number[] = [];
+  private velocities = new Float64Array(0);
+  /** Pairs of node indices (child, parent), one pair per parent link */
+  private edges = new Int32Array(0);
+  private readonly pinned = new Set<Node>();
+
+  public constructor(options: Partial<ForceDirectedLayoutOptions> = {}) {
+    this.Options = { ...ForceDirectedLayoutEngine.DEFAULT_OPTIONS, ...options };
+  }
+
+  ComputeLayout(leafNodes: Node[]): Map<Node, Vector3> {
+    const initialLayout = new LayeredLayoutEngine({
+      HistoryAxis: this.Options.TimeAxisStrength > 0 ? "time" : "generation",
+      GenerationSpacing: this.Options.SpringLength,
+      LaneSpacing: this.Options.SpringLength,
+    }).ComputeLayout(leafNodes);
+
+    // Jitter depth a little, so that the simulation can push nodes out of the layered planes
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    initialLayout.forEach((position) => (position.z += (random() - 0.5) * ForceDirectedLayoutEngine.JITTER));
+
+    this.nodes = Array.from(initialLayout.keys());
+    this.positions = Array.from(initialLayout.values());
+    this.timeAxisTargets = this.positions.map((x) => x.x);
+    this.velocities = new Float64Array(3 * this.nodes.length);
+
+    const indices = new Map<Node, number>();
+    this.nodes.forEach((node, index) => indices.set(node, index));
+    this.indices = indices;
+    const edges: number[] = [];
+    this.nodes.forEach((node, index) => node.Parents.forEach((p) => edges.push(index, indices.get(p)!)));
+    this.edges = new Int32Array(edges);
+
+    Array.from(this.pinned).filter((x) => !indices.has(x)).forEach((x) => this.pinned.delete(x));
+    this.alpha = 1;
+
+    return initialLayout;
+  }
+
+  Step(): boolean {
+    if (this.Paused || this.alpha < this.Options.AlphaMin || this.nodes.length === 0) return false;
+
+    this.applySprings();
+    this.applyRepulsion();
+    if (this.Options.TimeAxisStrength > 0) this.applyTimeAxis();
+
+    // Integrate velocities, leaving pinned nodes where they are
+    const velocityScale = 1 - this.Options.VelocityDecay;
+    for (let n = 0; n < this.nodes.length; ++n) {
+      const v = 3 * n;
+      if (this.pinned.has(this.nodes[n])) {
+        this.velocities.fill(0, v, v + 3);
+        continue;
+      }
+      this.velocities[v] *= velocityScale;
+      this.velocities[v + 1] *= velocityScale;
+      this.velocities[v + 2] *= velocityScale;
+      this.positions[n].x += this.velocities[v];
+      this.positions[n].y += this.velocities[v + 1];
+      this.positions[n].z += this.velocities[v + 2];
+    }
+
+    this.alpha *= 1 - this.Options.AlphaDecay;
+    return true;
+  }
+
+  Reheat(): void {
+    this.alpha = 1;
+  }
+
+  Pin(node: Node, position?: Vector3): void {
+    this.pinned.add(node);
+    const index = this.indices.get(node);
+    if (position && index !== undefined) this.positions[index].copy(position);
+  }
+
+  Unpin(node: Node): void {
+    this.pinned.delete(node);
+  }
+
+  IsPinned(node: Node): boolean {
+    return this.pinned.has(node);
+  }
+
+  private applySprings() {
+    const strength = this.Options.SpringStrength * this.alpha;
+    for (let e = 0; e < this.edges.length; e += 2) {
+      const a = this.edges[e];
+      const b = this.edges[e + 1];
+      const pa = this.positions[a];
+      const pb = this.positions[b];
+      const dx = pb.x - pa.x;
+      const dy = pb.y - pa.y;
+      const dz = pb.z - pa.z;
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1e-6;
+      const force = (strength * (dist - this.Options.SpringLength)) / dist;
+      this.addVelocity(a, dx * force, dy * force, dz * force);
+      this.addVelocity(b, -dx * force, -dy * force, -dz * force);
+    }
+  }
+
+  /** Repels nodes within {@link ForceDirectedLayoutOptions.RepulsionRadius} of each other, using a spatial hash grid */
+  private applyRepulsion() {
+    const radius = this.Options.RepulsionRadius;
+    const strength = this.Options.RepulsionStrength * this.alpha;
+    const cellKey = (cx: number, cy: number, cz: number) => `${cx},${cy},${cz}`;
+
+    const cells = new Map<string, number[]>();
+    const nodeCells: number[] = new Array<number>(3 * this.nodes.length);
+    this.positions.forEach((p, n) => {
+      const cx = Math.floor(p.x / radius);
+      const cy = Math.floor(p.y / radius);
+      const cz = Math.floor(p.z / radius);
+      nodeCells[3 * n] = cx;
+      nodeCells[3 * n + 1] = cy;
+      nodeCells[3 * n + 2] = cz;
+      const key = cellKey(cx, cy, cz);
+      const cell = cells.get(key);
+      if (cell) cell.push(n);
+      else cells.set(key, [n]);
+    });
+
+    for (let a = 0; a < this.nodes.length; ++a) {
+      const pa = this.positions[a];
+      for (let dx = -1; dx <= 1; ++dx)
+        for (let dy = -1; dy <= 1; ++dy)
+          for (let dz = -1; dz <= 1; ++dz) {
+            const cell = cells.get(
+              cellKey(nodeCells[3 * a] + dx, nodeCells[3 * a + 1] + dy, nodeCells[3 * a + 2] + dz)
+            );
+            if (!cell) continue;
+
+            // Only handle each pair once, from its lower index
+            for (const b of cell) {
+              if (b <= a) continue;
+              const pb = this.positions[b];
+              const ox = pa.x - pb.x;
+              const oy = pa.y - pb.y;
+              const oz = pa.z - pb.z;
+              const distSq = ox * ox + oy * oy + oz * oz;
+              if (distSq >= radius * radius) continue;
+
+              const force = strength / Math.max(distSq, 0.01);
+              this.addVelocity(a, ox * force, oy * force, oz * force);
+              this.addVelocity(b, -ox * force, -oy * force, -oz * force);
+            }
+          }
+    }
+  }
+
+  private applyTimeAxis() {
+    const strength = this.Options.TimeAxisStrength * this.alpha;
+    this.positions.forEach((p, n) => this.addVelocity(n, (this.timeAxisTargets[n] - p.x) * strength, 0, 0));
+  }
+
+  private addVelocity(index: number, x: number, y: number, z: number) {
+    this.velocities[3 * index] += x;
+    this.velocities[3 * index + 1] += y;
+    this.velocities[3 * index + 2] += z;
+  }
+}
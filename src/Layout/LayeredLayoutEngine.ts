@@ -0,0 +1,227 @@
+import { Vector3 } from "three";
+import { getGenerations, sortTopologically } from "../NodeGraph";
+import { Node, RefType } from "../Rendering/Abstractions";
+import { ILayoutEngine } from "./Abstractions";
+
+export type HistoryAxis = "generation" | "time";
+
+export interface LayeredLayoutOptions {
+  /** Whether positions along the history (x) axis come from generations or commit times */
+  HistoryAxis: HistoryAxis;
+  /** Distance between consecutive generations along the history axis */
+  GenerationSpacing: number;
+  /** Distance between adjacent lanes within a plane (y axis) */
+  LaneSpacing: number;
+  /** Distance between planes of lanes (z axis) */
+  PlaneSpacing: number;
+  /** Number of lanes in each plane, before parallel branches spill into the next plane */
+  LanesPerPlane: number;
+  /** Number of barycenter sweeps used to reduce edge crossings between lanes */
+  CrossingSweeps: number;
+}
+
+/** A run of nodes connected by first-parent links, which all share a lane */
+interface Chain {
+  Index: number;
+  Nodes: Node[];
+  /** Generation of the node this chain forked from, or of its own oldest node */
+  Start: number;
+  /** Generation of the node this chain merged into, or of its own newest node */
+  End: number;
+  /** The chain containing the first parent of this chain's oldest node, if any */
+  Fork: Chain | null;
+  /** Chains connected to this one by a parent link, once per link */
+  Neighbors: Chain[];
+}
+
+/**
+ * Sugiyama-style layout that arranges nodes in layers along the history (x) axis.
+ * First-parent chains (lines of development) each get a lane, and lanes are ordered to reduce edge crossings.
+ * Lanes that don't fit in one plane spill into planes further along the depth (z) axis.
+ * The layout is deterministic: the same graph always gets the same positions.
+ */
+export class LayeredLayoutEngine implements ILayoutEngine {
+  public static readonly DEFAULT_OPTIONS: LayeredLayoutOptions = {
+    HistoryAxis: "generation",
+    GenerationSpacing: 2,
+    LaneSpacing: 2,
+    PlaneSpacing: 4,
+    LanesPerPlane: 8,
+    CrossingSweeps: 4,
+  };
+
+  /** Chains containing these refs are laid out first, so that they get the most central lanes */
+  private static readonly REF_PRIORITIES: RefType[] = ["head", "branch", "remote", "tag"];
+
+  public readonly Options: LayeredLayoutOptions;
+
+  public constructor(options: Partial<LayeredLayoutOptions> = {}) {
+    this.Options = { ...LayeredLayoutEngine.DEFAULT_OPTIONS, ...options };
+  }
+
+  ComputeLayout(leafNodes: Node[]): Map<Node, Vector3> {
+    const sortedNodes = sortTopologically(leafNodes);
+    const generations = getGenerations(sortedNodes);
+    const chains = LayeredLayoutEngine.buildChains(sortedNodes, generations);
+    const lanes = this.assignLanes(chains);
+    const historyPositions =
+      this.Options.HistoryAxis === "time"
+        ? this.getTimePositions(sortedNodes, generations)
+        : this.getGenerationPositions(generations);
+
+    const positions = new Map<Node, Vector3>();
+    chains.forEach((chain) => {
+      const lane = lanes[chain.Index];
+      const y = (lane % this.Options.LanesPerPlane) * this.Options.LaneSpacing;
+      const z = -Math.floor(lane / this.Options.LanesPerPlane) * this.Options.PlaneSpacing;
+      chain.Nodes.forEach((node) => positions.set(node, new Vector3(historyPositions.get(node)!, y, z)));
+    });
+    return positions;
+  }
+
+  private static buildChains(sortedNodes: Node[], generations: Map<Node, number>): Chain[] {
+    // Start chains at the newest nodes, preferring nodes that refs point at
+    const priority = (node: Node) => {
+      const refs = node.Commit?.Refs ?? [];
+      const priorities = refs.map((x) => LayeredLayoutEngine.REF_PRIORITIES.indexOf(x.Type));
+      return Math.min(LayeredLayoutEngine.REF_PRIORITIES.length, ...priorities);
+    };
+    const startNodes = sortedNodes
+      .map((node, index) => ({ node, index, priority: priority(node) }))
+      .sort((a, b) => a.priority - b.priority || b.index - a.index)
+      .map((x) => x.node);
+
+    const chainOf = new Map<Node, Chain>();
+    const chains: Chain[] = [];
+    startNodes.forEach((startNode) => {
+      if (chainOf.has(startNode)) return;
+
+      const chain: Chain = { Index: chains.length, Nodes: [], Start: 0, End: 0, Fork: null, Neighbors: [] };
+      for (let node: Node | null = startNode; node && !chainOf.has(node); node = node.FirstParent) {
+        chain.Nodes.push(node);
+        chainOf.set(node, chain);
+      }
+      chains.push(chain);
+    });
+
+    // Chains occupy their lane from where they fork to where they merge, so that edges don't overlap other chains
+    chains.forEach((chain) => {
+      const newest = chain.Nodes[0];
+      const oldest = chain.Nodes[chain.Nodes.length - 1];
+      chain.Fork = oldest.FirstParent ? chainOf.get(oldest.FirstParent)! : null;
+      chain.Start = generations.get(oldest.FirstParent ?? oldest)!;
+      chain.End = newest.Children.reduce(
+        (max, x) => Math.max(max, generations.get(x) ?? max),
+        generations.get(newest)!
+      );
+
+      chain.Nodes.forEach((node) =>
+        node.Parents.forEach((parent) => {
+          const parentChain = chainOf.get(parent)!;
+          if (parentChain === chain) return;
+          chain.Neighbors.push(parentChain);
+          parentChain.Neighbors.push(chain);
+        })
+      );
+    });
+
+    return chains;
+  }
+
+  /**
+   * Assigns a lane to every chain, such that chains with overlapping spans never share a lane.
+   * Each sweep places chains as close as possible to the average lane of their neighbors from the previous sweep
+   * (the barycenter heuristic), and the sweep with the shortest total edge length across lanes wins.
+   * @returns The lane of each chain, indexed by chain index
+   */
+  private assignLanes(chains: Chain[]): number[] {
+    if (chains.length === 0) return [];
+
+    // On the first sweep, chains just prefer the lane of the chain they forked from
+    let preferredLanes = chains.map(() => 0);
+    let bestLanes: number[] = [];
+    let bestCost = Infinity;
+    for (let sweep = 0; sweep <= this.Options.CrossingSweeps; ++sweep) {
+      const lanes = LayeredLayoutEngine.packLanes(chains, preferredLanes, sweep === 0);
+      const cost = chains.reduce(
+        (sum, chain) => sum + chain.Neighbors.reduce((s, x) => s + Math.abs(lanes[chain.Index] - lanes[x.Index]), 0),
+        0
+      );
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestLanes = lanes;
+      }
+
+      preferredLanes = chains.map((chain) =>
+        chain.Neighbors.length === 0
+          ? lanes[chain.Index]
+          : chain.Neighbors.reduce((sum, x) => sum + lanes[x.Index], 0) / chain.Neighbors.length
+      );
+    }
+    return bestLanes;
+  }
+
+  private static packLanes(chains: Chain[], preferredLanes: number[], preferForkLane: boolean): number[] {
+    const lanes: number[] = new Array<number>(chains.length);
+    const laneEnds: number[] = [];
+    const occupy = (chain: Chain, lane: number) => {
+      lanes[chain.Index] = lane;
+      laneEnds[lane] = chain.End;
+    };
+
+    // The first chain (e.g. the one containing HEAD) always gets the first lane
+    occupy(chains[0], 0);
+
+    const chainsByStart = chains.slice(1).sort((a, b) => a.Start - b.Start || a.Index - b.Index);
+    chainsByStart.forEach((chain) => {
+      const preferred = Math.round(
+        preferForkLane ? (chain.Fork ? lanes[chain.Fork.Index] ?? 0 : 0) : preferredLanes[chain.Index]
+      );
+
+      // Search outward from the preferred lane for the nearest free one
+      const isFree = (lane: number) => laneEnds[lane] <= chain.Start;
+      let lane = -1;
+      for (let d = 0; lane < 0 && d <= laneEnds.length; ++d) {
+        if (preferred + d < laneEnds.length && isFree(preferred + d)) lane = preferred + d;
+        else if (d > 0 && preferred - d >= 0 && preferred - d < laneEnds.length && isFree(preferred - d))
+          lane = preferred - d;
+      }
+      occupy(chain, lane >= 0 ? lane : laneEnds.length);
+    });
+
+    return lanes;
+  }
+
+  private getGenerationPositions(generations: Map<Node, number>): Map<Node, number> {
+    const positions = new Map<Node, number>();
+    generations.forEach((generation, node) => positions.set(node, generation * this.Options.GenerationSpacing));
+    return positions;
+  }
+
+  /**
+   * Positions nodes by commit time, scaled so that the graph spans the same distance as it would by generation.
+   * Nodes without commit metadata fall back to their generation.
+   */
+  private getTimePositions(sortedNodes: Node[], generations: Map<Node, number>): Map<Node, number> {
+    const times = sortedNodes.filter((x) => x.Commit).map((x) => x.Commit!.Committer.Date.getTime());
+    if (times.length === 0) return this.getGenerationPositions(generations);
+
+    // Large graphs have too many nodes to spread into Math.min/max
+    const minTime = times.reduce((min, x) => Math.min(min, x), Infinity);
+    const timeRange = times.reduce((max, x) => Math.max(max, x), -Infinity) - minTime;
+    let maxGeneration = 0;
+    generations.forEach((x) => (maxGeneration = Math.max(maxGeneration, x)));
+    const scale = timeRange === 0 ? 0 : (maxGeneration * this.Options.GenerationSpacing) / timeRange;
+
+    const positions = new Map<Node, number>();
+    sortedNodes.forEach((node) =>
+      positions.set(
+        node,
+        node.Commit
+          ? (node.Commit.Committer.Date.getTime() - minTime) * scale
+          : generations.get(node)! * this.Options.GenerationSpacing
+      )
+    );
+    return positions;
+  }
+}
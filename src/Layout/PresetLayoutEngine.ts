@@ -0,0 +1,32 @@
+import { Vector3 } from "three";
+import { getAllNodes } from "../NodeGraph";
+import { Node } from "../Rendering/Abstractions";
+import { ILayoutEngine } from "./Abstractions";
+import { LayeredLayoutEngine } from "./LayeredLayoutEngine";
+
+/**
+ * Layout that puts nodes where they were put before, e.g. by the layout saved in a graph snapshot.
+ * If any node has no saved position, the fallback layout lays out the graph and those nodes keep its positions.
+ */
+export class PresetLayoutEngine implements ILayoutEngine {
+  private readonly positions: ReadonlyMap<string, Vector3>;
+  private readonly fallback: ILayoutEngine;
+
+  /** @param positions Position of each node by ID */
+  public constructor(positions: ReadonlyMap<string, Vector3>, fallback: ILayoutEngine = new LayeredLayoutEngine()) {
+    this.positions = positions;
+    this.fallback = fallback;
+  }
+
+  ComputeLayout(leafNodes: Node[]): Map<Node, Vector3> {
+    const nodes = getAllNodes(leafNodes);
+    const layout = nodes.every((x) => this.positions.has(x.Id))
+      ? new Map<Node, Vector3>()
+      : this.fallback.ComputeLayout(leafNodes);
+    nodes.forEach((node) => {
+      const position = this.positions.get(node.Id);
+      if (position) layout.set(node, position.clone());
+    });
+    return layout;
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./ForceDirectedLayoutEngine";
+export * from "./LayeredLayoutEngine";
+export * from "./PresetLayoutEngine";
@@ -0,0 +1,49 @@
+import { Legend } from "../Coloring/Abstractions";
+
+/**
+ * Fills in the legend overlay from the `Legend` partial with the colors of the current color mode.
+ * The partial only provides the overlay's structure, since legends depend on the loaded graph.
+ */
+export class LegendPanel {
+  private readonly element: HTMLElement;
+
+  /** @param element Root element of the rendered `Legend` partial */
+  public constructor(element: HTMLElement) {
+    this.element = element;
+  }
+
+  /** Shows a legend, or hides the overlay if null */
+  public Show(legend: Legend | null): void {
+    this.element.classList.toggle("d-none", !legend);
+    if (!legend) return;
+
+    this.find("js-legend-title").textContent = legend.Title;
+
+    const gradient = legend.Gradient;
+    this.find("js-legend-gradient").classList.toggle("d-none", !gradient);
+    if (gradient) {
+      this.find("js-legend-gradient-bar").style.background = `linear-gradient(to right, ${gradient.Colors.join(", ")})`;
+      this.find("js-legend-gradient-start").textContent = gradient.StartLabel;
+      this.find("js-legend-gradient-end").textContent = gradient.EndLabel;
+    }
+
+    const entries = this.find("js-legend-entries");
+    entries.textContent = "";
+    legend.Entries.forEach((entry) => {
+      const swatch = document.createElement("span");
+      swatch.className = "g3d-legend-swatch rounded-circle me-1";
+      swatch.style.backgroundColor = entry.Color;
+
+      const item = document.createElement("li");
+      item.className = "text-truncate";
+      item.title = entry.Label;
+      item.appendChild(swatch);
+      item.appendChild(document.createTextNode(entry.Label));
+      entries.appendChild(item);
+    });
+  }
+
+  private find(className: string): HTMLElement {
+    return this.element.getElementsByClassName(className)[0] as HTMLElement;
+  }
+}
@@ -0,0 +1,82 @@
+import { Node } from "./Rendering/Abstractions";
+
+/**
+ * Collects every node reachable from the given leaf nodes by following parent links
+ * @returns The nodes in the order they were discovered
+ */
+export function getAllNodes(leafNodes: Node[]): Node[] {
+  const visited = new Set<Node>();
+  const nodes: Node[] = [];
+  const stack = leafNodes.slice().reverse();
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (visited.has(node)) continue;
+    visited.add(node);
+    nodes.push(node);
+    for (let p = node.Parents.length - 1; p >= 0; --p) stack.push(node.Parents[p]);
+  }
+  return nodes;
+}
+
+/**
+ * Sorts every node reachable from the given leaf nodes so that parents always come before their children.
+ * The order is deterministic for a given graph.
+ */
+export function sortTopologically(leafNodes: Node[]): Node[] {
+  const nodes = getAllNodes(leafNodes);
+  const numUnsortedParents = new Map<Node, number>();
+  nodes.forEach((x) => numUnsortedParents.set(x, x.Parents.length));
+
+  const sorted = nodes.filter((x) => x.Parents.length === 0);
+  for (let n = 0; n < sorted.length; ++n) {
+    sorted[n].Children.forEach((child) => {
+      const remaining = numUnsortedParents.get(child);
+      if (remaining === undefined) return; // Child is not reachable from the given leaves
+      numUnsortedParents.set(child, remaining - 1);
+      if (remaining === 1) sorted.push(child);
+    });
+  }
+  return sorted;
+}
+
+/**
+ * Computes the generation of every node: 0 for root nodes, otherwise one more than the generation of its latest parent
+ * @param sortedNodes Nodes in topological order, as returned by {@link sortTopologically}
+ */
+export function getGenerations(sortedNodes: Node[]): Map<Node, number> {
+  const generations = new Map<Node, number>();
+  sortedNodes.forEach((node) =>
+    generations.set(
+      node,
+      node.Parents.reduce((max, p) => Math.max(max, (generations.get(p) ?? -1) + 1), 0)
+    )
+  );
+  return generations;
+}
+
+/**
+ * Sorts every node reachable from the given nodes so that children always come before their parents.
+ * Like `git log --topo-order`, the history merged in by a merge comes right after the merge, before its first parent's.
+ * Nodes first reached from a later starting node come first. Doesn't recurse, since graphs can be deep.
+ */
+export function sortChildrenFirst(nodes: readonly Node[]): Node[] {
+  const visited = new Set<Node>();
+  const parentsFirst: Node[] = [];
+  nodes.forEach((start) => {
+    if (visited.has(start)) return;
+
+    visited.add(start);
+    const stack: { Node: Node; NextParent: number }[] = [{ Node: start, NextParent: 0 }];
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (top.NextParent < top.Node.Parents.length) {
+        const parent = top.Node.Parents[top.NextParent++];
+        if (!visited.has(parent)) {
+          visited.add(parent);
+          stack.push({ Node: parent, NextParent: 0 });
+        }
+      } else parentsFirst.push(stack.pop()!.Node);
+    }
+  });
+  return parentsFirst.reverse();
+}
@@ -0,0 +1,45 @@
+import { Camera, Ray, Raycaster, Sphere, Vector2, Vector3 } from "three";
+import { Node } from "./Rendering/Abstractions";
+
+/**
+ * Finds the node under a screen point by intersecting the camera ray with each node's bounding sphere.
+ * Raycasting every triangle of every node instance would be far too slow for large graphs.
+ */
+export class NodePicker {
+  private readonly raycaster = new Raycaster();
+  private readonly sphere = new Sphere();
+  private readonly hitPoint = new Vector3();
+
+  /**
+   * @param pointer Screen point in normalized device coordinates (-1 to 1 on both axes)
+   * @param radius Bounding sphere radius of every node
+   * @param isIgnored Returns whether a node can't be picked, like a hidden node
+   * @returns The node nearest to the camera along the ray, or null if the ray hits no nodes
+   */
+  public Pick(
+    pointer: Vector2,
+    camera: Camera,
+    positions: Map<Node, Vector3>,
+    radius: number,
+    isIgnored: (node: Node) => boolean = () => false
+  ): Node | null {
+    this.raycaster.setFromCamera(pointer, camera);
+    const ray: Ray = this.raycaster.ray;
+    this.sphere.radius = radius;
+
+    let nearest: Node | null = null;
+    let nearestDistSq = Infinity;
+    positions.forEach((position, node) => {
+      if (isIgnored(node)) return;
+      this.sphere.center.copy(position);
+      if (!ray.intersectSphere(this.sphere, this.hitPoint)) return;
+
+      const distSq = this.hitPoint.distanceToSquared(ray.origin);
+      if (distSq < nearestDistSq) {
+        nearest = node;
+        nearestDistSq = distSq;
+      }
+    });
+    return nearest;
+  }
+}
@@ -0,0 +1,17 @@
+import { Node } from "../Rendering/Abstractions";
+
+export interface INodeProvider {
+  /** Builds the full node graph and returns the nodes that have no children */
+  GetLeafNodes(): Promise<Node[]>;
+}
+
+/**
+ * Read-only access to the files of a `.git` directory.
+ * All paths are relative to the `.git` directory and use "/" as the separator.
+ */
+export interface IGitDirectory {
+  /** @returns The contents of the file, or null if it does not exist */
+  ReadFileAsync(path: string): Promise<Uint8Array | null>;
+  /** @returns The paths of all files under the given directory, recursively */
+  ListFilesAsync(dirPath: string): Promise<string[]>;
+}
@@ -0,0 +1,99 @@
+import { IGitDirectory } from "./Abstractions";
+import { GitRepositoryError } from "./GitObjectStore";
+
+// Minimal typings for the File and Directory Entries API, which TypeScript's DOM lib does not include
+interface FileSystemEntry {
+  isFile: boolean;
+  isDirectory: boolean;
+  fullPath: string;
+}
+interface FileSystemFileEntry extends FileSystemEntry {
+  file(success: (file: File) => void, error: (err: DOMException) => void): void;
+}
+interface FileSystemDirectoryEntry extends FileSystemEntry {
+  createReader(): {
+    readEntries(success: (entries: FileSystemEntry[]) => void, error: (err: DOMException) => void): void;
+  };
+}
+
+/**
+ * A `.git` directory that the user picked (with `<input type="file" webkitdirectory>`) or dropped into the browser.
+ * The selected folder may be the `.git` directory itself or any folder containing it.
+ * Files are only read on demand, so nothing leaves the user's machine.
+ */
+export class BrowserGitDirectory implements IGitDirectory {
+  private readonly files: Map<string, File>;
+
+  public constructor(files: Map<string, File>) {
+    this.files = files;
+  }
+
+  /** Creates a directory from the files of a directory-picker input */
+  public static FromFiles(files: ArrayLike<File>): BrowserGitDirectory {
+    const filesByPath = new Map<string, File>();
+    for (let f = 0; f < files.length; ++f) {
+      const file = files[f] as File & { webkitRelativePath: string };
+      filesByPath.set(file.webkitRelativePath || file.name, file);
+    }
+    return BrowserGitDirectory.fromAllFiles(filesByPath);
+  }
+
+  /** Creates a directory from the folder dropped in a drag-and-drop operation */
+  public static async FromDataTransferAsync(dataTransfer: DataTransfer): Promise<BrowserGitDirectory> {
+    const filesByPath = new Map<string, File>();
+    const entries = Array.from(dataTransfer.items)
+      .map((x) => x.webkitGetAsEntry() as FileSystemEntry | null)
+      .filter((x): x is FileSystemEntry => x !== null);
+    await Promise.all(entries.map((x) => BrowserGitDirectory.collectFilesAsync(x, filesByPath)));
+    return BrowserGitDirectory.fromAllFiles(filesByPath);
+  }
+
+  ReadFileAsync(path: string): Promise<Uint8Array | null> {
+    const file = this.files.get(path);
+    return file
+      ? file.arrayBuffer().then((x) => new Uint8Array(x))
+      : Promise.resolve(null);
+  }
+
+  ListFilesAsync(dirPath: string): Promise<string[]> {
+    const prefix = dirPath.endsWith("/") ? dirPath : `${dirPath}/`;
+    return Promise.resolve(Array.from(this.files.keys()).filter((x) => x.startsWith(prefix)));
+  }
+
+  /** Finds the `.git` directory among all selected files, and re-roots their paths there */
+  private static fromAllFiles(filesByPath: Map<string, File>): BrowserGitDirectory {
+    const paths = Array.from(filesByPath.keys());
+    const gitDirPrefix = paths
+      .filter((x) => x === "HEAD" || x.endsWith("/HEAD"))
+      .map((x) => x.substring(0, x.length - "HEAD".length))
+      .filter((prefix) => paths.some((x) => x.startsWith(`${prefix}objects/`)))
+      .sort((a, b) => a.length - b.length)[0];
+    if (gitDirPrefix === undefined)
+      throw new GitRepositoryError("No .git directory was found in the selected files");
+
+    const gitFiles = new Map<string, File>();
+    filesByPath.forEach((file, path) => {
+      if (path.startsWith(gitDirPrefix)) gitFiles.set(path.substring(gitDirPrefix.length), file);
+    });
+    return new BrowserGitDirectory(gitFiles);
+  }
+
+  private static async collectFilesAsync(entry: FileSystemEntry, filesByPath: Map<string, File>): Promise<void> {
+    const path = entry.fullPath.replace(/^\//, "");
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      filesByPath.set(path, file);
+      return;
+    }
+
+    // readEntries returns directory contents in batches, until it returns an empty batch
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      await Promise.all(batch.map((x) => BrowserGitDirectory.collectFilesAsync(x, filesByPath)));
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { Node, Ref, Signature } from "../Rendering/Abstractions";
+import { INodeProvider } from "./Abstractions";
+import { refFromFullName } from "./GitRefs";
+
+/**
+ * Thrown when a line of `git log` output does not match {@link GitLogNodeProvider.FORMAT}
+ */
+export class GitLogParseError extends Error {
+  /** 1-based line number of the malformed line */
+  public readonly LineNumber: number;
+  public readonly Line: string;
+
+  constructor(lineNumber: number, line: string, reason: string) {
+    super(`Malformed git log line ${lineNumber}: ${reason}`);
+    this.name = "GitLogParseError";
+    this.LineNumber = lineNumber;
+    this.Line = line;
+  }
+}
+
+/**
+ * Builds the commit graph from the text output of {@link GitLogNodeProvider.COMMAND}.
+ * Each line holds one commit, with fields separated by the ASCII unit separator.
+ * Commit lines may be followed by a `--shortstat` line, which gives how much the commit changed.
+ * Parents that do not appear in the log (e.g. because it was truncated with `-n`) are ignored.
+ */
+export class GitLogNodeProvider implements INodeProvider {
+  private static readonly FIELD_SEPARATOR = "\x1f";
+  private static readonly FIELDS = [
+    "%H", // sha
+    "%P", // parent shas
+    "%an", // author name
+    "%ae", // author email
+    "%aI", // author date
+    "%cn", // committer name
+    "%ce", // committer email
+    "%cI", // committer date
+    "%D", // decorations (refs)
+    "%s", // subject
+  ];
+  private static readonly SHA_REGEX = /^[0-9a-f]{40}([0-9a-f]{24})?$/;
+  /** Matches `--shortstat` lines, e.g. " 3 files changed, 10 insertions(+), 2 deletions(-)" */
+  private static readonly SHORTSTAT_REGEX =
+    /^\s*(\d+) files? changed(?:, (\d+) insertions?\(\+\))?(?:, (\d+) deletions?\(-\))?\s*$/;
+
+  /** The `--format` string whose output this provider parses */
+  public static readonly FORMAT = GitLogNodeProvider.FIELDS.join("%x1f");
+  /** Full command that produces output this provider can parse */
+  public static readonly COMMAND = `git log --all --decorate=full --shortstat --format="${GitLogNodeProvider.FORMAT}"`;
+
+  private readonly logText: string;
+
+  public constructor(logText: string) {
+    this.logText = logText;
+  }
+
+  GetLeafNodes(): Promise<Node[]> {
+    try {
+      const nodes = this.parseNodes();
+      return Promise.resolve(
+        Array.from(nodes.values()).filter((x) => x.Children.length === 0)
+      );
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  private parseNodes(): Map<string, Node> {
+    const nodes = new Map<string, Node>();
+    const parentShas = new Map<Node, string[]>();
+    let lastNode: Node | null = null;
+
+    const lines = this.logText.split("\n");
+    for (let l = 0; l < lines.length; ++l) {
+      const line = lines[l].replace(/\r$/, "");
+      if (line.trim() === "") continue;
+
+      const lineNumber = l + 1;
+      const fail = (reason: string) => new GitLogParseError(lineNumber, line, reason);
+
+      const stats = GitLogNodeProvider.SHORTSTAT_REGEX.exec(line);
+      if (stats) {
+        if (!lastNode?.Commit) throw fail("change stats must follow a commit");
+        lastNode.Commit.Stats = {
+          FilesChanged: Number(stats[1]),
+          Insertions: Number(stats[2] ?? 0),
+          Deletions: Number(stats[3] ?? 0),
+        };
+        continue;
+      }
+
+      const fields = line.split(GitLogNodeProvider.FIELD_SEPARATOR);
+      const numFields = GitLogNodeProvider.FIELDS.length;
+      if (fields.length < numFields)
+        throw fail(
+          `expected ${numFields} fields but found ${fields.length}. ` +
+            `Was the log generated with ${GitLogNodeProvider.COMMAND}?`
+        );
+
+      const [
+        sha,
+        parents,
+        authorName,
+        authorEmail,
+        authorDate,
+        committerName,
+        committerEmail,
+        committerDate,
+        decorations,
+      ] = fields;
+      // Subjects may contain anything but newlines
+      const subject = fields.slice(numFields - 1).join(GitLogNodeProvider.FIELD_SEPARATOR);
+
+      if (!GitLogNodeProvider.SHA_REGEX.test(sha)) throw fail(`"${sha}" is not a commit sha`);
+      if (nodes.has(sha)) throw fail(`commit ${sha} appears more than once`);
+
+      const parentList = parents === "" ? [] : parents.split(" ");
+      const badParent = parentList.find((x) => !GitLogNodeProvider.SHA_REGEX.test(x));
+      if (badParent !== undefined) throw fail(`parent "${badParent}" is not a commit sha`);
+
+      const node = new Node(sha, subject);
+      node.Commit = {
+        Author: GitLogNodeProvider.parseSignature(authorName, authorEmail, authorDate, fail),
+        Committer: GitLogNodeProvider.parseSignature(committerName, committerEmail, committerDate, fail),
+        Subject: subject,
+        Message: subject,
+        Refs: GitLogNodeProvider.parseDecorations(decorations),
+        Stats: null,
+      };
+      nodes.set(sha, node);
+      parentShas.set(node, parentList);
+      lastNode = node;
+    }
+
+    // Link parents only once every commit is known, since git log lists children first
+    parentShas.forEach((shas, node) =>
+      shas.forEach((sha) => {
+        const parent = nodes.get(sha);
+        if (parent) node.AddParent(parent);
+      })
+    );
+
+    return nodes;
+  }
+
+  private static parseSignature(
+    name: string,
+    email: string,
+    dateStr: string,
+    fail: (reason: string) => GitLogParseError
+  ): Signature {
+    const date = new Date(dateStr);
+    if (isNaN(date.getTime())) throw fail(`"${dateStr}" is not an ISO 8601 date`);
+    return { Name: name, Email: email, Date: date };
+  }
+
+  /** Parses `%D` output, e.g. "HEAD -> refs/heads/main, tag: refs/tags/v1.0, refs/remotes/origin/main" */
+  private static parseDecorations(decorations: string): Ref[] {
+    const refs: Ref[] = [];
+    if (decorations.trim() === "") return refs;
+
+    for (const decoration of decorations.split(", ")) {
+      const headArrow = "HEAD -> ";
+      const tagPrefix = "tag: ";
+      let ref: Ref | null;
+      if (decoration.startsWith(headArrow)) {
+        refs.push({ Name: "HEAD", Type: "head" });
+        ref = refFromFullName(decoration.substring(headArrow.length));
+      } else if (decoration.startsWith(tagPrefix)) {
+        const tagName = decoration.substring(tagPrefix.length);
+        ref = { Name: tagName.replace(/^refs\/tags\//, ""), Type: "tag" };
+      } else ref = refFromFullName(decoration);
+
+      if (ref) refs.push(ref);
+    }
+
+    return refs;
+  }
+}
@@ -0,0 +1,265 @@
+import { IGitDirectory } from "./Abstractions";
+import { inflateZlib } from "./Inflate";
+
+export type GitObjectType = "commit" | "tree" | "blob" | "tag";
+
+export interface GitObject {
+  Type: GitObjectType;
+  Data: Uint8Array;
+}
+
+/**
+ * Thrown when a `.git` directory is missing required files or contains corrupt data
+ */
+export class GitRepositoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitRepositoryError";
+  }
+}
+
+const SHA_BYTES = 20;
+const PACK_OBJECT_TYPES: (GitObjectType | null)[] = [null, "commit", "tree", "blob", "tag"];
+const PACK_OFS_DELTA = 6;
+const PACK_REF_DELTA = 7;
+
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let b = 0; b < bytes.length; ++b) bytes[b] = parseInt(hex.substr(2 * b, 2), 16);
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (let b = 0; b < bytes.length; ++b) hex += (bytes[b] < 16 ? "0" : "") + bytes[b].toString(16);
+  return hex;
+}
+
+/**
+ * A packfile and its index (version 1 or 2)
+ */
+class Packfile {
+  private static readonly IDX_V2_MAGIC = 0xff744f63;
+  private static readonly FANOUT_ENTRIES = 256;
+
+  public readonly Name: string;
+  public readonly Data: Uint8Array;
+
+  private readonly idx: DataView;
+  private readonly idxBytes: Uint8Array;
+  private readonly version: number;
+  private readonly fanoutStart: number;
+  private readonly numObjects: number;
+
+  constructor(name: string, idx: Uint8Array, pack: Uint8Array) {
+    this.Name = name;
+    this.Data = pack;
+    this.idxBytes = idx;
+    this.idx = new DataView(idx.buffer, idx.byteOffset, idx.byteLength);
+
+    if (String.fromCharCode(...pack.subarray(0, 4)) !== "PACK")
+      throw new GitRepositoryError(`${name}.pack is not a packfile`);
+
+    this.version = this.idx.getUint32(0) === Packfile.IDX_V2_MAGIC ? this.idx.getUint32(4) : 1;
+    if (this.version !== 1 && this.version !== 2)
+      throw new GitRepositoryError(`${name}.idx has unsupported version ${this.version}`);
+    this.fanoutStart = this.version === 2 ? 8 : 0;
+    this.numObjects = this.idx.getUint32(this.fanoutStart + 4 * (Packfile.FANOUT_ENTRIES - 1));
+  }
+
+  /** @returns The offset of the object in the pack data, or -1 if this pack does not contain it */
+  public FindOffset(sha: Uint8Array): number {
+    let lo = sha[0] === 0 ? 0 : this.idx.getUint32(this.fanoutStart + 4 * (sha[0] - 1));
+    let hi = this.idx.getUint32(this.fanoutStart + 4 * sha[0]);
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      const cmp = this.compareSha(mid, sha);
+      if (cmp === 0) return this.getOffset(mid);
+      if (cmp < 0) lo = mid + 1;
+      else hi = mid;
+    }
+    return -1;
+  }
+
+  private get indexStart() {
+    return this.fanoutStart + 4 * Packfile.FANOUT_ENTRIES;
+  }
+
+  private compareSha(index: number, sha: Uint8Array): number {
+    const start =
+      this.version === 2
+        ? this.indexStart + SHA_BYTES * index
+        : this.indexStart + (4 + SHA_BYTES) * index + 4;
+    for (let b = 0; b < SHA_BYTES; ++b) {
+      const diff = this.idxBytes[start + b] - sha[b];
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  private getOffset(index: number): number {
+    if (this.version === 1) return this.idx.getUint32(this.indexStart + (4 + SHA_BYTES) * index);
+
+    const offsetsStart = this.indexStart + (SHA_BYTES + 4) * this.numObjects; // Skip SHAs and CRCs
+    const offset = this.idx.getUint32(offsetsStart + 4 * index);
+    if ((offset & 0x80000000) === 0) return offset;
+
+    // Offsets past 2 GiB are stored in a separate table of 64-bit offsets
+    const largeOffsetsStart = offsetsStart + 4 * this.numObjects;
+    const largeIndex = offset & 0x7fffffff;
+    return (
+      this.idx.getUint32(largeOffsetsStart + 8 * largeIndex) * 2 ** 32 +
+      this.idx.getUint32(largeOffsetsStart + 8 * largeIndex + 4)
+    );
+  }
+}
+
+/**
+ * Reads git objects from the loose object directories and packfiles of a `.git` directory.
+ * Only SHA-1 repositories are supported.
+ */
+export class GitObjectStore {
+  private static readonly MAX_CACHED_OBJECTS = 4096;
+
+  private readonly gitDir: IGitDirectory;
+  private readonly packs: Packfile[] = [];
+  private readonly packObjectCache = new Map<string, GitObject>();
+
+  public constructor(gitDir: IGitDirectory) {
+    this.gitDir = gitDir;
+  }
+
+  public async InitializeAsync(): Promise<void> {
+    const packDir = "objects/pack/";
+    const idxPaths = (await this.gitDir.ListFilesAsync(packDir)).filter((x) => x.endsWith(".idx"));
+    for (const idxPath of idxPaths) {
+      const name = idxPath.substring(0, idxPath.length - ".idx".length);
+      const [idx, pack] = await Promise.all([
+        this.gitDir.ReadFileAsync(idxPath),
+        this.gitDir.ReadFileAsync(`${name}.pack`),
+      ]);
+      if (!idx || !pack) throw new GitRepositoryError(`${name}.pack is missing its .pack or .idx file`);
+      this.packs.push(new Packfile(name, idx, pack));
+    }
+  }
+
+  /** @returns The object with the given SHA, or null if it does not exist in this repository */
+  public async ReadObjectAsync(sha: string): Promise<GitObject | null> {
+    const shaBytes = hexToBytes(sha);
+    for (const pack of this.packs) {
+      const offset = pack.FindOffset(shaBytes);
+      if (offset >= 0) return this.readPackObjectAsync(pack, offset);
+    }
+
+    return this.readLooseObjectAsync(sha);
+  }
+
+  private async readLooseObjectAsync(sha: string): Promise<GitObject | null> {
+    const path = `objects/${sha.substring(0, 2)}/${sha.substring(2)}`;
+    const compressed = await this.gitDir.ReadFileAsync(path);
+    if (!compressed) return null;
+
+    // Loose objects are "<type> <size>\0<content>"
+    const data = inflateZlib(compressed);
+    const headerEnd = data.indexOf(0);
+    const [type, size] = String.fromCharCode(...data.subarray(0, headerEnd)).split(" ");
+    const content = data.subarray(headerEnd + 1);
+    if (PACK_OBJECT_TYPES.indexOf(type as GitObjectType) < 1 || Number(size) !== content.length)
+      throw new GitRepositoryError(`Loose object ${sha} is corrupt`);
+
+    return { Type: type as GitObjectType, Data: content };
+  }
+
+  private async readPackObjectAsync(pack: Packfile, offset: number): Promise<GitObject> {
+    const cacheKey = `${pack.Name}:${offset}`;
+    const cached = this.packObjectCache.get(cacheKey);
+    if (cached) return cached;
+
+    const data = pack.Data;
+    let pos = offset;
+
+    // Entry header: 3-bit type and variable-length size
+    let byte = data[pos++];
+    const typeNum = (byte >> 4) & 7;
+    let size = byte & 0x0f;
+    for (let shift = 4; byte & 0x80; shift += 7) {
+      byte = data[pos++];
+      size += (byte & 0x7f) * 2 ** shift;
+    }
+
+    let obj: GitObject;
+    const objType = PACK_OBJECT_TYPES[typeNum];
+    if (objType) obj = { Type: objType, Data: inflateZlib(data.subarray(pos), size || 1) };
+    else if (typeNum === PACK_OFS_DELTA) {
+      // Base offset is relative to this entry, in a big-endian varint with an implicit +1 per continuation byte
+      byte = data[pos++];
+      let relOffset = byte & 0x7f;
+      while (byte & 0x80) {
+        byte = data[pos++];
+        relOffset = (relOffset + 1) * 128 + (byte & 0x7f);
+      }
+      const base = await this.readPackObjectAsync(pack, offset - relOffset);
+      const delta = inflateZlib(data.subarray(pos), size || 1);
+      obj = { Type: base.Type, Data: GitObjectStore.applyDelta(base.Data, delta, pack.Name) };
+    } else if (typeNum === PACK_REF_DELTA) {
+      const baseSha = bytesToHex(data.subarray(pos, pos + SHA_BYTES));
+      pos += SHA_BYTES;
+      const base = await this.ReadObjectAsync(baseSha);
+      if (!base) throw new GitRepositoryError(`Delta base ${baseSha} in ${pack.Name}.pack does not exist`);
+      const delta = inflateZlib(data.subarray(pos), size || 1);
+      obj = { Type: base.Type, Data: GitObjectStore.applyDelta(base.Data, delta, pack.Name) };
+    } else throw new GitRepositoryError(`Unknown object type ${typeNum} at offset ${offset} in ${pack.Name}.pack`);
+
+    // Cache objects so that long delta chains don't get re-resolved for every object in them
+    if (this.packObjectCache.size >= GitObjectStore.MAX_CACHED_OBJECTS)
+      this.packObjectCache.delete(this.packObjectCache.keys().next().value);
+    this.packObjectCache.set(cacheKey, obj);
+
+    return obj;
+  }
+
+  private static applyDelta(base: Uint8Array, delta: Uint8Array, packName: string): Uint8Array {
+    let pos = 0;
+    const readSize = () => {
+      let value = 0;
+      let byte: number;
+      let shift = 0;
+      do {
+        byte = delta[pos++];
+        value += (byte & 0x7f) * 2 ** shift;
+        shift += 7;
+      } while (byte & 0x80);
+      return value;
+    };
+    const corrupt = () => new GitRepositoryError(`Corrupt delta object in ${packName}.pack`);
+
+    const baseSize = readSize();
+    if (baseSize !== base.length) throw corrupt();
+    const result = new Uint8Array(readSize());
+
+    let out = 0;
+    while (pos < delta.length) {
+      const op = delta[pos++];
+      if (op & 0x80) {
+        // Copy from base: bits 0-3 flag which offset bytes follow, bits 4-6 flag which size bytes follow
+        let copyOffset = 0;
+        let copySize = 0;
+        for (let b = 0; b < 4; ++b) if (op & (1 << b)) copyOffset += delta[pos++] * 2 ** (8 * b);
+        for (let b = 0; b < 3; ++b) if (op & (0x10 << b)) copySize += delta[pos++] << (8 * b);
+        if (copySize === 0) copySize = 0x10000;
+        if (copyOffset + copySize > base.length || out + copySize > result.length) throw corrupt();
+        result.set(base.subarray(copyOffset, copyOffset + copySize), out);
+        out += copySize;
+      } else if (op !== 0) {
+        // Insert the next op bytes from the delta itself
+        if (out + op > result.length) throw corrupt();
+        result.set(delta.subarray(pos, pos + op), out);
+        pos += op;
+        out += op;
+      } else throw corrupt();
+    }
+
+    if (out !== result.length) throw corrupt();
+    return result;
+  }
+}
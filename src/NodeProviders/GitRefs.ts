@@ -0,0 +1,22 @@
+import { Ref } from "../Rendering/Abstractions";
+
+const REF_PREFIXES: [string, Ref["Type"]][] = [
+  ["refs/heads/", "branch"],
+  ["refs/remotes/", "remote"],
+  ["refs/tags/", "tag"],
+];
+
+/**
+ * Converts a full ref name (e.g. "refs/heads/main") into a {@link Ref}
+ * @returns The parsed ref, or null for refs that are not branches, remotes, tags, or HEAD (e.g. refs/stash)
+ */
+export function refFromFullName(fullName: string): Ref | null {
+  if (fullName === "HEAD") return { Name: "HEAD", Type: "head" };
+
+  const prefix = REF_PREFIXES.find(([p]) => fullName.startsWith(p));
+  if (prefix) return { Name: fullName.substring(prefix[0].length), Type: prefix[1] };
+
+  // Short names (no "refs/" prefix) can only be assumed to be local branches
+  return fullName.startsWith("refs/") ? null : { Name: fullName, Type: "branch" };
+}
+
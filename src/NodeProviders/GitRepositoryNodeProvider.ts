@@ -0,0 +1,183 @@
+import { Node, Ref, Signature } from "../Rendering/Abstractions";
+import { IGitDirectory, INodeProvider } from "./Abstractions";
+import { GitObjectStore, GitRepositoryError } from "./GitObjectStore";
+import { refFromFullName } from "./GitRefs";
+
+interface ParsedCommit {
+  Parents: string[];
+  Author: Signature;
+  Committer: Signature;
+  Message: string;
+}
+
+/**
+ * Builds the commit graph by reading a `.git` directory directly: refs, packed-refs, loose objects, and packfiles.
+ * Every commit reachable from HEAD, a branch, a remote-tracking branch, or a tag is included.
+ */
+export class GitRepositoryNodeProvider implements INodeProvider {
+  private static readonly SHA_REGEX = /^[0-9a-f]{40}$/;
+  private static readonly SIGNATURE_REGEX = /^(.*) <(.*)> (\d+) ([+-]\d{4})$/;
+  private static readonly MAX_TAG_DEPTH = 16;
+
+  private readonly gitDir: IGitDirectory;
+  private readonly objectStore: GitObjectStore;
+  private readonly textDecoder = new TextDecoder();
+
+  public constructor(gitDir: IGitDirectory) {
+    this.gitDir = gitDir;
+    this.objectStore = new GitObjectStore(gitDir);
+  }
+
+  async GetLeafNodes(): Promise<Node[]> {
+    await this.objectStore.InitializeAsync();
+
+    const refs = await this.readRefsAsync();
+    const nodes = await this.readCommitsAsync(Array.from(refs.keys()));
+    refs.forEach((commitRefs, sha) => {
+      const node = nodes.get(sha);
+      if (node) node.Commit!.Refs = commitRefs;
+    });
+
+    return Array.from(nodes.values()).filter((x) => x.Children.length === 0);
+  }
+
+  /** @returns The refs pointing at each commit, keyed by commit SHA */
+  private async readRefsAsync(): Promise<Map<string, Ref[]>> {
+    const head = await this.readTextAsync("HEAD");
+    if (head === null) throw new GitRepositoryError("Not a git directory: HEAD is missing");
+
+    // Loose refs override packed ones with the same name
+    const refShas = new Map<string, string>();
+    const packedRefs = await this.readTextAsync("packed-refs");
+    if (packedRefs !== null) {
+      for (const line of packedRefs.split("\n")) {
+        // Skip comments and "^<sha>" peeled tag lines; tags get peeled below either way
+        if (line === "" || line.startsWith("#") || line.startsWith("^")) continue;
+        const [sha, name] = line.trim().split(" ");
+        refShas.set(name, sha);
+      }
+    }
+    for (const path of await this.gitDir.ListFilesAsync("refs/")) {
+      const content = await this.readTextAsync(path);
+      if (content !== null) refShas.set(path, content.trim());
+    }
+
+    // HEAD is either a symbolic ref or a detached commit SHA
+    const headContent = head.trim();
+    const symbolicPrefix = "ref: ";
+    const headSha = headContent.startsWith(symbolicPrefix)
+      ? refShas.get(headContent.substring(symbolicPrefix.length))
+      : headContent;
+    if (headSha !== undefined) refShas.set("HEAD", headSha);
+
+    const refs = new Map<string, Ref[]>();
+    for (const [fullName, sha] of refShas) {
+      const ref = refFromFullName(fullName);
+      if (!ref || !GitRepositoryNodeProvider.SHA_REGEX.test(sha)) continue;
+      const commitSha = await this.peelToCommitAsync(sha);
+      if (commitSha === null) continue;
+
+      let commitRefs = refs.get(commitSha);
+      if (!commitRefs) {
+        commitRefs = [];
+        refs.set(commitSha, commitRefs);
+      }
+      commitRefs.push(ref);
+    }
+
+    return refs;
+  }
+
+  /** Follows annotated tags until reaching a commit. Tags of trees or blobs are ignored. */
+  private async peelToCommitAsync(sha: string): Promise<string | null> {
+    for (let depth = 0; depth < GitRepositoryNodeProvider.MAX_TAG_DEPTH; ++depth) {
+      const obj = await this.objectStore.ReadObjectAsync(sha);
+      if (!obj || obj.Type === "commit") return obj ? sha : null;
+      if (obj.Type !== "tag") return null;
+
+      const match = /^object ([0-9a-f]{40})$/m.exec(this.textDecoder.decode(obj.Data));
+      if (!match) throw new GitRepositoryError(`Tag object ${sha} has no target object`);
+      sha = match[1];
+    }
+    return null;
+  }
+
+  private async readCommitsAsync(tipShas: string[]): Promise<Map<string, Node>> {
+    const nodes = new Map<string, Node>();
+    const parentShas = new Map<Node, string[]>();
+
+    const stack = tipShas.slice();
+    while (stack.length > 0) {
+      const sha = stack.pop()!;
+      if (nodes.has(sha)) continue;
+
+      // Shallow clones are missing the parents of their oldest commits
+      const obj = await this.objectStore.ReadObjectAsync(sha);
+      if (!obj) continue;
+      if (obj.Type !== "commit") throw new GitRepositoryError(`Object ${sha} is a ${obj.Type}, not a commit`);
+
+      const commit = this.parseCommit(sha, this.textDecoder.decode(obj.Data));
+      const subject = commit.Message.split("\n")[0];
+      const node = new Node(sha, subject);
+      node.Commit = {
+        Author: commit.Author,
+        Committer: commit.Committer,
+        Subject: subject,
+        Message: commit.Message,
+        Refs: [],
+        Stats: null,
+      };
+      nodes.set(sha, node);
+      parentShas.set(node, commit.Parents);
+      stack.push(...commit.Parents);
+    }
+
+    parentShas.forEach((shas, node) =>
+      shas.forEach((sha) => {
+        const parent = nodes.get(sha);
+        if (parent) node.AddParent(parent);
+      })
+    );
+
+    return nodes;
+  }
+
+  private parseCommit(sha: string, text: string): ParsedCommit {
+    const messageStart = text.indexOf("\n\n");
+    const headerLines = (messageStart >= 0 ? text.substring(0, messageStart) : text).split("\n");
+
+    const parents: string[] = [];
+    let author: Signature | null = null;
+    let committer: Signature | null = null;
+    for (const line of headerLines) {
+      // Continuation lines of multi-line headers (e.g. gpgsig) start with a space
+      if (line.startsWith(" ")) continue;
+
+      const space = line.indexOf(" ");
+      const key = line.substring(0, space);
+      const value = line.substring(space + 1);
+      if (key === "parent") parents.push(value);
+      else if (key === "author") author = this.parseSignature(sha, value);
+      else if (key === "committer") committer = this.parseSignature(sha, value);
+    }
+    if (!author || !committer) throw new GitRepositoryError(`Commit ${sha} is missing its author or committer`);
+
+    return {
+      Parents: parents,
+      Author: author,
+      Committer: committer,
+      Message: messageStart >= 0 ? text.substring(messageStart + 2).replace(/\n$/, "") : "",
+    };
+  }
+
+  private parseSignature(sha: string, value: string): Signature {
+    const match = GitRepositoryNodeProvider.SIGNATURE_REGEX.exec(value);
+    if (!match) throw new GitRepositoryError(`Commit ${sha} has a malformed signature: ${value}`);
+    return { Name: match[1], Email: match[2], Date: new Date(Number(match[3]) * 1000) };
+  }
+
+  private async readTextAsync(path: string): Promise<string | null> {
+    const data = await this.gitDir.ReadFileAsync(path);
+    return data ? this.textDecoder.decode(data) : null;
+  }
+}
@@ -0,0 +1,137 @@
+import { Vector3 } from "three";
+import {
+  GRAPH_SNAPSHOT_FORMAT,
+  GRAPH_SNAPSHOT_VERSION,
+  GraphSnapshot,
+  GraphSnapshotNode,
+  GraphSnapshotSignature,
+} from "../Export/Abstractions";
+import { CommitMetadata, Node, RefType, Signature } from "../Rendering/Abstractions";
+import { INodeProvider } from "./Abstractions";
+
+/**
+ * Thrown when text is not a {@link GraphSnapshot} that this version can read
+ */
+export class GraphSnapshotParseError extends Error {
+  /** ID of the node that the error is in, or null if it isn't in a node */
+  public readonly NodeId: string | null;
+
+  constructor(nodeId: string | null, reason: string) {
+    super(
+      nodeId === null ? `Malformed graph snapshot: ${reason}` : `Malformed graph snapshot node ${nodeId}: ${reason}`
+    );
+    this.name = "GraphSnapshotParseError";
+    this.NodeId = nodeId;
+  }
+}
+
+/**
+ * Builds the commit graph from a {@link GraphSnapshot}, as saved by {@link createGraphSnapshot}.
+ * The snapshot's layout is kept in {@link Positions}, so that the graph can be shown the way it was saved.
+ * Parents that are not in the snapshot are ignored.
+ */
+export class GraphSnapshotNodeProvider implements INodeProvider {
+  private static readonly REF_TYPES: RefType[] = ["head", "branch", "remote", "tag"];
+
+  private readonly snapshotText: string;
+  private readonly positions = new Map<string, Vector3>();
+
+  public constructor(snapshotText: string) {
+    this.snapshotText = snapshotText;
+  }
+
+  /** @returns Whether the text looks like a snapshot (rather than e.g. `git log` output), without fully parsing it */
+  public static IsSnapshot(text: string): boolean {
+    return /^\s*\{/.test(text);
+  }
+
+  /** Saved position of each node by ID. Filled in by {@link GetLeafNodes}. */
+  public get Positions(): ReadonlyMap<string, Vector3> {
+    return this.positions;
+  }
+
+  GetLeafNodes(): Promise<Node[]> {
+    try {
+      const nodes = this.parseNodes();
+      return Promise.resolve(Array.from(nodes.values()).filter((x) => x.Children.length === 0));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  private parseNodes(): Map<string, Node> {
+    let snapshot: GraphSnapshot;
+    try {
+      snapshot = JSON.parse(this.snapshotText);
+    } catch (error) {
+      throw new GraphSnapshotParseError(null, (error as Error).message);
+    }
+    if (snapshot?.Format !== GRAPH_SNAPSHOT_FORMAT)
+      throw new GraphSnapshotParseError(null, `format is not "${GRAPH_SNAPSHOT_FORMAT}"`);
+    if (!Number.isInteger(snapshot.Version) || snapshot.Version < 1 || snapshot.Version > GRAPH_SNAPSHOT_VERSION)
+      throw new GraphSnapshotParseError(null, `version ${snapshot.Version} is not supported by this version of git3d`);
+    if (!Array.isArray(snapshot.Nodes)) throw new GraphSnapshotParseError(null, "nodes are missing");
+
+    const nodes = new Map<string, Node>();
+    this.positions.clear();
+    snapshot.Nodes.forEach((x) => {
+      if (typeof x?.Id !== "string") throw new GraphSnapshotParseError(null, "a node has no ID");
+      if (nodes.has(x.Id)) throw new GraphSnapshotParseError(x.Id, "node appears more than once");
+
+      const node = new Node(x.Id, String(x.Label ?? x.Id));
+      node.Commit = x.Commit ? GraphSnapshotNodeProvider.parseCommit(x) : null;
+      nodes.set(x.Id, node);
+      if (x.Position) this.positions.set(x.Id, GraphSnapshotNodeProvider.parsePosition(x));
+    });
+
+    // Link parents only once every node is known, since snapshots list children first
+    snapshot.Nodes.forEach((x) => {
+      if (!Array.isArray(x.Parents)) throw new GraphSnapshotParseError(x.Id, "parents are missing");
+      const node = nodes.get(x.Id)!;
+      x.Parents.forEach((id) => {
+        const parent = nodes.get(id);
+        if (parent) node.AddParent(parent);
+      });
+    });
+
+    return nodes;
+  }
+
+  private static parseCommit(node: GraphSnapshotNode): CommitMetadata {
+    const commit = node.Commit!;
+    const fail = (reason: string) => new GraphSnapshotParseError(node.Id, reason);
+    const badRef = (commit.Refs ?? []).find((x) => !GraphSnapshotNodeProvider.REF_TYPES.includes(x?.Type));
+    if (badRef) throw fail(`"${badRef.Type}" is not a ref type`);
+
+    return {
+      Author: GraphSnapshotNodeProvider.parseSignature(commit.Author, fail),
+      Committer: GraphSnapshotNodeProvider.parseSignature(commit.Committer, fail),
+      Subject: String(commit.Subject ?? ""),
+      Message: String(commit.Message ?? commit.Subject ?? ""),
+      Refs: (commit.Refs ?? []).map((x) => ({ Name: String(x.Name), Type: x.Type })),
+      Stats: commit.Stats
+        ? {
+            FilesChanged: Number(commit.Stats.FilesChanged) || 0,
+            Insertions: Number(commit.Stats.Insertions) || 0,
+            Deletions: Number(commit.Stats.Deletions) || 0,
+          }
+        : null,
+    };
+  }
+
+  private static parseSignature(
+    signature: GraphSnapshotSignature | undefined,
+    fail: (reason: string) => GraphSnapshotParseError
+  ): Signature {
+    const date = new Date(signature?.Date ?? "");
+    if (isNaN(date.getTime())) throw fail(`"${signature?.Date}" is not an ISO 8601 date`);
+    return { Name: String(signature!.Name ?? ""), Email: String(signature!.Email ?? ""), Date: date };
+  }
+
+  private static parsePosition(node: GraphSnapshotNode): Vector3 {
+    const position = node.Position!;
+    if (!Array.isArray(position) || position.length !== 3 || !position.every((x) => Number.isFinite(x)))
+      throw new GraphSnapshotParseError(node.Id, "position is not three numbers");
+    return new Vector3(...position);
+  }
+}
@@ -0,0 +1,227 @@
+// Pure TypeScript DEFLATE decoder (RFC 1951) with zlib framing (RFC 1950), modeled on zlib's "puff" reference decoder.
+// Git compresses every loose object and packfile entry with zlib, and browsers have no synchronous API to inflate them.
+
+const MAX_BITS = 15;
+const NUM_FIXED_LIT_CODES = 288;
+const NUM_FIXED_DIST_CODES = 30;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/** Canonical Huffman code, stored as the number of codes of each bit length and the symbols ordered by code */
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>, offset: number, count: number): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let s = 0; s < count; ++s) ++counts[lengths[offset + s]];
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let len = 1; len < MAX_BITS; ++len) offsets[len + 1] = offsets[len] + counts[len];
+
+  const symbols = new Uint16Array(count);
+  for (let s = 0; s < count; ++s) {
+    const len = lengths[offset + s];
+    if (len !== 0) symbols[offsets[len]++] = s;
+  }
+
+  counts[0] = 0;
+  return { counts, symbols };
+}
+
+const FIXED_LIT_CODE = (() => {
+  const lengths = new Uint8Array(NUM_FIXED_LIT_CODES);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, NUM_FIXED_LIT_CODES);
+  return buildHuffman(lengths, 0, NUM_FIXED_LIT_CODES);
+})();
+const FIXED_DIST_CODE = buildHuffman(new Uint8Array(NUM_FIXED_DIST_CODES).fill(5), 0, NUM_FIXED_DIST_CODES);
+
+class Inflater {
+  private readonly input: Uint8Array;
+  private inPos = 0;
+  private bitBuf = 0;
+  private bitCount = 0;
+
+  private output: Uint8Array;
+  private outPos = 0;
+
+  constructor(input: Uint8Array, sizeHint: number) {
+    this.input = input;
+    this.output = new Uint8Array(Math.max(sizeHint, 64));
+  }
+
+  public Inflate(): Uint8Array {
+    let lastBlock: boolean;
+    do {
+      lastBlock = this.readBits(1) === 1;
+      const blockType = this.readBits(2);
+      switch (blockType) {
+        case 0:
+          this.inflateStored();
+          break;
+        case 1:
+          this.inflateCodes(FIXED_LIT_CODE, FIXED_DIST_CODE);
+          break;
+        case 2:
+          this.inflateDynamic();
+          break;
+        default:
+          throw new Error("Invalid deflate block type");
+      }
+    } while (!lastBlock);
+
+    return this.output.subarray(0, this.outPos);
+  }
+
+  private readBits(numBits: number): number {
+    let value = this.bitBuf;
+    while (this.bitCount < numBits) {
+      if (this.inPos >= this.input.length) throw new Error("Unexpected end of deflate stream");
+      value |= this.input[this.inPos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    this.bitBuf = value >>> numBits;
+    this.bitCount -= numBits;
+    return value & ((1 << numBits) - 1);
+  }
+
+  private decodeSymbol(huffman: Huffman): number {
+    let code = 0; // bits are read MSB-first for Huffman codes
+    let first = 0; // first code of the current length
+    let index = 0; // index of the first code of the current length in the symbol table
+    for (let len = 1; len <= MAX_BITS; ++len) {
+      code |= this.readBits(1);
+      const count = huffman.counts[len];
+      if (code - count < first) return huffman.symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error("Invalid Huffman code in deflate stream");
+  }
+
+  private ensureOutput(numBytes: number) {
+    if (this.outPos + numBytes <= this.output.length) return;
+    let newLength = this.output.length * 2;
+    while (newLength < this.outPos + numBytes) newLength *= 2;
+    const newOutput = new Uint8Array(newLength);
+    newOutput.set(this.output.subarray(0, this.outPos));
+    this.output = newOutput;
+  }
+
+  private inflateStored() {
+    // Stored blocks start on a byte boundary
+    this.bitBuf = 0;
+    this.bitCount = 0;
+
+    if (this.inPos + 4 > this.input.length) throw new Error("Unexpected end of deflate stream");
+    const len = this.input[this.inPos] | (this.input[this.inPos + 1] << 8);
+    const nlen = this.input[this.inPos + 2] | (this.input[this.inPos + 3] << 8);
+    if (len !== (~nlen & 0xffff)) throw new Error("Invalid stored block length in deflate stream");
+    this.inPos += 4;
+
+    if (this.inPos + len > this.input.length) throw new Error("Unexpected end of deflate stream");
+    this.ensureOutput(len);
+    this.output.set(this.input.subarray(this.inPos, this.inPos + len), this.outPos);
+    this.inPos += len;
+    this.outPos += len;
+  }
+
+  private inflateDynamic() {
+    const numLitCodes = this.readBits(5) + 257;
+    const numDistCodes = this.readBits(5) + 1;
+    const numCodeLenCodes = this.readBits(4) + 4;
+
+    const codeLenLengths = new Uint8Array(CODE_LENGTH_ORDER.length);
+    for (let c = 0; c < numCodeLenCodes; ++c) codeLenLengths[CODE_LENGTH_ORDER[c]] = this.readBits(3);
+    const codeLenCode = buildHuffman(codeLenLengths, 0, codeLenLengths.length);
+
+    // Literal/length and distance code lengths are run-length encoded together
+    const lengths = new Uint8Array(numLitCodes + numDistCodes);
+    for (let l = 0; l < lengths.length; ) {
+      const symbol = this.decodeSymbol(codeLenCode);
+      if (symbol < 16) {
+        lengths[l++] = symbol;
+        continue;
+      }
+
+      let repeatLen = 0;
+      let repeat: number;
+      if (symbol === 16) {
+        if (l === 0) throw new Error("Invalid code length repeat in deflate stream");
+        repeatLen = lengths[l - 1];
+        repeat = 3 + this.readBits(2);
+      } else if (symbol === 17) repeat = 3 + this.readBits(3);
+      else repeat = 11 + this.readBits(7);
+
+      if (l + repeat > lengths.length) throw new Error("Too many code lengths in deflate stream");
+      lengths.fill(repeatLen, l, l + repeat);
+      l += repeat;
+    }
+
+    this.inflateCodes(
+      buildHuffman(lengths, 0, numLitCodes),
+      buildHuffman(lengths, numLitCodes, numDistCodes)
+    );
+  }
+
+  private inflateCodes(litCode: Huffman, distCode: Huffman) {
+    for (;;) {
+      let symbol = this.decodeSymbol(litCode);
+      if (symbol < 256) {
+        this.ensureOutput(1);
+        this.output[this.outPos++] = symbol;
+        continue;
+      }
+      if (symbol === 256) return;
+
+      symbol -= 257;
+      if (symbol >= LENGTH_BASE.length) throw new Error("Invalid length code in deflate stream");
+      const len = LENGTH_BASE[symbol] + this.readBits(LENGTH_EXTRA[symbol]);
+
+      const distSymbol = this.decodeSymbol(distCode);
+      if (distSymbol >= DIST_BASE.length) throw new Error("Invalid distance code in deflate stream");
+      const dist = DIST_BASE[distSymbol] + this.readBits(DIST_EXTRA[distSymbol]);
+      if (dist > this.outPos) throw new Error("Distance too far back in deflate stream");
+
+      // Copy byte-by-byte, since the source and destination ranges may overlap
+      this.ensureOutput(len);
+      for (let b = 0; b < len; ++b, ++this.outPos)
+        this.output[this.outPos] = this.output[this.outPos - dist];
+    }
+  }
+}
+
+/**
+ * Decompresses raw DEFLATE data
+ * @param sizeHint Expected size of the decompressed data, if known, to avoid reallocating the output
+ */
+export function inflateRaw(data: Uint8Array, sizeHint = 0): Uint8Array {
+  return new Inflater(data, sizeHint || data.length * 4).Inflate();
+}
+
+/**
+ * Decompresses zlib-wrapped DEFLATE data. The Adler-32 trailer is not verified.
+ * @param sizeHint Expected size of the decompressed data, if known, to avoid reallocating the output
+ */
+export function inflateZlib(data: Uint8Array, sizeHint = 0): Uint8Array {
+  if (data.length < 2) throw new Error("zlib data is too short");
+  const cmf = data[0];
+  const flg = data[1];
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0) throw new Error("Invalid zlib header");
+  if (flg & 0x20) throw new Error("zlib preset dictionaries are not supported");
+  return inflateRaw(data.subarray(2), sizeHint);
+}
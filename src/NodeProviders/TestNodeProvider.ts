@@ -0,0 +1,14 @@
+import { Node } from "../Rendering/Abstractions";
+import { INodeProvider } from "./Abstractions";
+
+export class TestNodeProvider implements INodeProvider {
+  GetLeafNodes(): Promise<Node[]> {
+    const root = new Node("4", "Root");
+    const parent3 = new Node("3", "Third", [root]);
+    const feature = new Node("f", "Feature", [root]);
+    const parent2 = new Node("2", "Second", [parent3, feature]);
+    const parent1 = new Node("1", "First", [parent2]);
+    const leaf = new Node("0", "Leaf", [parent1]);
+    return Promise.resolve([leaf]);
+  }
+}
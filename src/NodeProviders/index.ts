@@ -0,0 +1,6 @@
+export * from "./BrowserGitDirectory";
+export * from "./GitLogNodeProvider";
+export * from "./GitObjectStore";
+export * from "./GitRepositoryNodeProvider";
+export * from "./GraphSnapshotNodeProvider";
+export * from "./TestNodeProvider";
@@ -5,83 +5,42 @@
 import {
   EventDispatcher,
   Matrix4,
-  MOUSE,
   OrthographicCamera,
   PerspectiveCamera,
   Quaternion,
   Spherical,
-  TOUCH,
-  Vector2,
   Vector3,
 } from "three";
+import { CameraIntent, IInputProvider } from "./Input/Abstractions";
 
 
 const _changeEvent = { type: "change" };
 const _startEvent = { type: "start" };
 const _endEvent = { type: "end" };
 
-export interface IInputProvider {}
-
-export class DomInputProvider {}
+/** Where the camera is and what it looks at, as saved by {@link OrbitControls.saveState} */
+export interface OrbitControlsState {
+  target: Vector3;
+  position: Vector3;
+  zoom: number;
+}
 
 /**
  * This set of controls performs orbiting, dollying (zooming), and panning.
  * It maintains the "up" direction object.up (+Y by default).
- *
- *      Orbit - left mouse / touch: one-finger move
- *      Zoom - middle mouse, or mousewheel / touch: two-finger spread or squish
- *      Pan - right mouse, or left mouse + ctrl/meta/shiftKey, or arrow keys / touch: two-finger move
+ * Input comes from an {@link IInputProvider} as camera intents, so the controls themselves never touch the DOM.
  */
 export class OrbitControls extends EventDispatcher {
-  private static readonly STATE = {
-    NONE: -1,
-    ROTATE: 0,
-    DOLLY: 1,
-    PAN: 2,
-    TOUCH_ROTATE: 3,
-    TOUCH_PAN: 4,
-    TOUCH_DOLLY_PAN: 5,
-    TOUCH_DOLLY_ROTATE: 6,
-  };
-
   private static readonly TWO_PI = 2 * Math.PI;
   private static readonly EPS = 0.000001;
 
-  private canvas: HTMLCanvasElement;
+  private readonly inputProvider: IInputProvider;
+  private readonly intentListener = this.onIntent.bind(this);
   private target0: Vector3;
   private position0: Vector3;
-  private zoom0;
-  private state = OrbitControls.STATE.NONE;
-
-  private _domElementKeyEvents: GlobalEventHandlers | null = null; // the target DOM element for key events
-
-  // The four arrow keys
-  public keys = {
-    LEFT: "ArrowLeft",
-    UP: "ArrowUp",
-    RIGHT: "ArrowRight",
-    BOTTOM: "ArrowDown",
-  };
-
-  // Mouse buttons
-  protected readonly mouseButtons = {
-    LEFT: MOUSE.ROTATE,
-    MIDDLE: MOUSE.DOLLY,
-    RIGHT: MOUSE.PAN,
-  };
-
-  // Touch fingers
-  protected readonly touches = { ONE: TOUCH.ROTATE, TWO: TOUCH.DOLLY_PAN };
-
-  private readonly eventListeners = {
-    contextmenu: this.onContextMenu.bind(this),
-    pointerdown: this.onPointerDown.bind(this),
-    pointercancel: this.onPointerCancel.bind(this),
-    wheel: this.onMouseWheel.bind(this),
-    keydown: this.onKeyDown.bind(this),
-    pointermove: this.onPointerMove.bind(this),
-    pointerup: this.onPointerUp.bind(this),
-  };
+  private zoom0: number;
+  /** Whether a gesture is in progress, between "start" and "end" intents */
+  private interacting = false;
 
   // current position in spherical coordinates
   private readonly spherical = new Spherical();
@@ -91,21 +50,6 @@ export class OrbitControls extends EventDispatcher {
   private readonly panOffset = new Vector3();
   private zoomChanged = false;
 
-  private readonly rotateStart = new Vector2();
-  private readonly rotateEnd = new Vector2();
-  private readonly rotateDelta = new Vector2();
-
-  private readonly panStart = new Vector2();
-  private readonly panEnd = new Vector2();
-  private readonly panDelta = new Vector2();
-
-  private readonly dollyStart = new Vector2();
-  private readonly dollyEnd = new Vector2();
-  private readonly dollyDelta = new Vector2();
-
-  private readonly pointers: PointerEvent[] = [];
-  private readonly pointerPositions = new Map<number, Vector2>();
-
   public camera: PerspectiveCamera | OrthographicCamera;
   public enabled: boolean = true;
 
@@ -146,17 +90,22 @@ export class OrbitControls extends EventDispatcher {
   public enableZoom = true;
   public zoomSpeed = 1.0;
 
+  /** Set to true to zoom in where you would otherwise zoom out, e.g. when scrolling down */
+  public invertZoom = false;
+
   /** Set to false to disable rotating */
   public enableRotate = true;
   public rotateSpeed = 1.0;
+  /** Set to true to rotate the opposite way when dragging horizontally */
+  public invertRotateX = false;
+  /** Set to true to rotate the opposite way when dragging vertically */
+  public invertRotateY = false;
 
   /** Set to false to disable panning */
   public enablePan = true;
   public panSpeed = 1.0;
   /** If false, pan orthogonal to world-space direction camera.up */
   public screenSpacePanning = true;
-  /** Pixels moved per arrow key push */
-  public keyPanSpeed = 7.0;
 
   /** Set to true to automatically rotate around the target. If auto-rotate is enabled, you must call controls.update() in your animation loop */
   public autoRotate = false;
@@ -164,13 +113,13 @@ export class OrbitControls extends EventDispatcher {
 
   constructor(
     camera: PerspectiveCamera | OrthographicCamera,
-    canvas: HTMLCanvasElement
+    inputProvider: IInputProvider
   ) {
     super();
 
     this.camera = camera;
-    this.canvas = canvas;
-    this.canvas.style.touchAction = "none"; // disable touch scroll
+    this.inputProvider = inputProvider;
+    this.inputProvider.AddListener(this.intentListener);
 
     // For reset
     this.target0 = this.target.clone();
@@ -180,22 +129,18 @@ export class OrbitControls extends EventDispatcher {
     // so camera.up is the orbit axis
     this.quat = new Quaternion().setFromUnitVectors(this.camera.up, new Vector3(0, 1, 0));
     this.quatInverse = this.quat.clone().invert();
-
-    this.canvas.addEventListener("contextmenu", this.eventListeners.contextmenu );
-    this.canvas.addEventListener("pointerdown", this.eventListeners.pointerdown);
-    this.canvas.addEventListener("pointercancel", this.eventListeners.pointercancel);
-    this.canvas.addEventListener("wheel", this.eventListeners.wheel, { passive: false });
   }
 
-  public listenToKeyEvents(domElement: GlobalEventHandlers) {
-    domElement.addEventListener("keydown", this.eventListeners.keydown);
-    this._domElementKeyEvents = domElement;
+  /** Saves the current state for {@link reset} to restore, or the given state instead (e.g. one loaded from a URL) */
+  public saveState(state?: OrbitControlsState) {
+    this.target0.copy(state?.target ?? this.target);
+    this.position0.copy(state?.position ?? this.camera.position);
+    this.zoom0 = state?.zoom ?? this.camera.zoom;
   }
 
-  public saveState() {
-    this.target0.copy(this.target);
-    this.position0.copy(this.camera.position);
-    this.zoom0 = this.camera.zoom;
+  /** The state that {@link reset} will restore */
+  public get savedState(): OrbitControlsState {
+    return { target: this.target0.clone(), position: this.position0.clone(), zoom: this.zoom0 };
   }
 
   public reset() {
@@ -208,7 +153,21 @@ export class OrbitControls extends EventDispatcher {
 
     this.update();
 
-    this.state = OrbitControls.STATE.NONE;
+    this.interacting = false;
+  }
+
+  /**
+   * Controls a different camera, e.g. to switch between perspective and orthographic projection.
+   * The target and any in-progress gesture or damping are kept, so the new camera should already be positioned
+   * (and zoomed, if orthographic) to match the old one.
+   */
+  public setCamera(camera: PerspectiveCamera | OrthographicCamera) {
+    if (camera === this.camera) return;
+
+    camera.up.copy(this.camera.up);
+    this.camera = camera;
+    this.camera.lookAt(this.target);
+    this.zoomChanged = true; // So that the next update dispatches a change event for the new camera
   }
 
   // this method is exposed, but perhaps it would be better if we can make it private...
@@ -231,7 +190,7 @@ export class OrbitControls extends EventDispatcher {
     // angle from z-axis around y-axis
     this.spherical.setFromVector3(this.updateOffset);
 
-    if (this.autoRotate && this.state === OrbitControls.STATE.NONE)
+    if (this.autoRotate && !this.interacting)
       this.sphericalDelta.theta -= (OrbitControls.TWO_PI / 3600) * this.autoRotateSpeed;
 
     const factor: number = this.enableDamping ? this.dampingFactor : 1;
@@ -328,25 +287,11 @@ export class OrbitControls extends EventDispatcher {
   }
 
   public dispose() {
-    this.canvas.removeEventListener("contextmenu", this.eventListeners.contextmenu);
-
-    this.canvas.removeEventListener("pointerdown", this.eventListeners.pointerdown);
-    this.canvas.removeEventListener("pointercancel", this.eventListeners.pointercancel);
-    this.canvas.removeEventListener("wheel", this.eventListeners.wheel);
-
-    this.canvas.removeEventListener("pointermove", this.eventListeners.pointermove);
-    this.canvas.removeEventListener("pointerup", this.eventListeners.pointerup);
-
-    if (this._domElementKeyEvents !== null)
-      this._domElementKeyEvents.removeEventListener("keydown", this.eventListeners.keydown);
+    this.inputProvider.RemoveListener(this.intentListener);
 
     //this.dispatchEvent( { type: 'dispose' } ); // should this be added here?
   }
 
-  private getZoomScale() {
-    return Math.pow(0.95, this.zoomSpeed);
-  }
-
   private readonly vPanLeft = new Vector3();
   private panLeft(distance: number, objectMatrix: Matrix4) {
     this.vPanLeft.setFromMatrixColumn(objectMatrix, 0); // get X column of objectMatrix
@@ -391,8 +336,9 @@ export class OrbitControls extends EventDispatcher {
     this.panUp(upDist, this.camera.matrix);
   }
 
-  private dolly(dollyScale: number, dollyOut: boolean) {
-    const dollyFactor = dollyOut ? 1 / dollyScale : dollyScale;
+  // dollyScale > 1 moves away from the target
+  private dolly(dollyScale: number) {
+    const dollyFactor = Math.pow(this.invertZoom ? 1 / dollyScale : dollyScale, this.zoomSpeed);
     if (this.camera instanceof PerspectiveCamera) {
       this.scale *= dollyFactor;
     } else {
@@ -405,396 +351,57 @@ export class OrbitControls extends EventDispatcher {
     }
   }
 
-  //
-  // event callbacks - update the object state
-  //
-
-  private handleMouseMoveRotate(x: number, y: number) {
-    this.rotateEnd.set(x, y);
-
-    this.rotateDelta
-      .subVectors(this.rotateEnd, this.rotateStart)
-      .multiplyScalar(this.rotateSpeed);
-
-    this.sphericalDelta.theta -= (OrbitControls.TWO_PI * this.rotateDelta.x) / this.canvas.clientHeight;  // yes, height
-    this.sphericalDelta.phi -= (OrbitControls.TWO_PI * this.rotateDelta.y) / this.canvas.clientHeight;
-
-    this.rotateStart.copy(this.rotateEnd);
-  }
-
-  private handleMouseMoveDolly(x: number, y: number) {
-    this.dollyEnd.set(x, y);
-
-    this.dollyDelta.subVectors(this.dollyEnd, this.dollyStart);
-
-    if (this.dollyDelta.y !== 0)
-      this.dolly(this.getZoomScale(), this.dollyDelta.y > 0);
-
-    this.dollyStart.copy(this.dollyEnd);
-  }
-
-  private handleMouseMovePan(x: number, y: number) {
-    this.panEnd.set(x, y);
-
-    this.panDelta
-      .subVectors(this.panEnd, this.panStart)
-      .multiplyScalar(this.panSpeed);
-
-    this.pan(this.panDelta.x, this.panDelta.y, this.canvas.clientWidth, this.canvas.clientHeight);
-
-    this.panStart.copy(this.panEnd);
-  }
-
-  private handleMouseWheel(event: WheelEvent) {
-    if (event.deltaY !== 0)
-      this.dolly(this.getZoomScale(), event.deltaY > 0);
-
-    this.update();
-  }
-
-  private handleKeyDown(event: KeyboardEvent) {
-    let needsUpdate = false;
-
-    switch (event.code) {
-      case this.keys.UP:
-        this.pan(0, this.keyPanSpeed, this.canvas.clientWidth, this.canvas.clientHeight);
-        needsUpdate = true;
-        break;
-
-      case this.keys.BOTTOM:
-        this.pan(0, -this.keyPanSpeed, this.canvas.clientWidth, this.canvas.clientHeight);
-        needsUpdate = true;
-        break;
-
-      case this.keys.LEFT:
-        this.pan(this.keyPanSpeed, 0, this.canvas.clientWidth, this.canvas.clientHeight);
-        needsUpdate = true;
-        break;
-
-      case this.keys.RIGHT:
-        this.pan(-this.keyPanSpeed, 0, this.canvas.clientWidth, this.canvas.clientHeight);
-        needsUpdate = true;
-        break;
-    }
-
-    if (needsUpdate) {
-      // prevent the browser from scrolling on cursor keys
-      event.preventDefault();
-      this.update();
-    }
-  }
-
-  private handleTouchStartTransform(vector: Vector2) {
-    if (this.pointers.length === 1) {
-      vector.set(this.pointers[0].pageX, this.pointers[0].pageY);
-    } else {
-      const x = 0.5 * (this.pointers[0].pageX + this.pointers[1].pageX);
-      const y = 0.5 * (this.pointers[0].pageY + this.pointers[1].pageY);
-      vector.set(x, y);
-    }
-  }
-
-  private handleTouchStartDolly() {
-    const dx = this.pointers[0].pageX - this.pointers[1].pageX;
-    const dy = this.pointers[0].pageY - this.pointers[1].pageY;
-
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    this.dollyStart.set(0, distance);
-  }
-
-  private handleTouchMoveRotate(pointerId: number, x: number, y: number) {
-    if (this.pointers.length === 1) {
-      this.rotateEnd.set(x, y);
-    } else {
-      const position = this.getSecondPointerPosition(pointerId)!;
-
-      const newX = 0.5 * (x + position.x);
-      const newY = 0.5 * (y + position.y);
-
-      this.rotateEnd.set(newX, newY);
-    }
-
-    this.rotateDelta
-      .subVectors(this.rotateEnd, this.rotateStart)
-      .multiplyScalar(this.rotateSpeed);
-
-    this.sphericalDelta.theta -= (OrbitControls.TWO_PI * this.rotateDelta.x) / this.canvas.clientHeight;  // yes, height
-    this.sphericalDelta.phi -= (OrbitControls.TWO_PI * this.rotateDelta.y) / this.canvas.clientHeight;
-
-    this.rotateStart.copy(this.rotateEnd);
-  }
-
-  private handleTouchMovePan(pointerId: number, x: number, y: number) {
-    if (this.pointers.length === 1) {
-      this.panEnd.set(x, y);
-    } else {
-      const position = this.getSecondPointerPosition(pointerId)!;
-
-      const newX = 0.5 * (x + position.x);
-      const newY = 0.5 * (y + position.y);
-
-      this.panEnd.set(newX, newY);
-    }
-
-    this.panDelta
-      .subVectors(this.panEnd, this.panStart)
-      .multiplyScalar(this.panSpeed);
-
-    this.pan(this.panDelta.x, this.panDelta.y, this.canvas.clientWidth, this.canvas.clientHeight);
-
-    this.panStart.copy(this.panEnd);
-  }
-
-  private handleTouchMoveDolly(pointerId: number, x: number, y: number) {
-    const position = this.getSecondPointerPosition(pointerId)!;
-
-    const dx = x - position.x;
-    const dy = y - position.y;
-
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    this.dollyEnd.set(0, distance);
-    this.dollyDelta.set(0, Math.pow(this.dollyEnd.y / this.dollyStart.y, this.zoomSpeed));
-    this.dolly(this.dollyDelta.y, true);
-    this.dollyStart.copy(this.dollyEnd);
+  // deltaX and deltaY are in pixels; right and down are positive
+  private rotate(deltaX: number, deltaY: number) {
+    const height = this.inputProvider.ViewportHeight;
+    const signX = this.invertRotateX ? -1 : 1;
+    const signY = this.invertRotateY ? -1 : 1;
+    this.sphericalDelta.theta -= (signX * OrbitControls.TWO_PI * deltaX * this.rotateSpeed) / height;  // yes, height
+    this.sphericalDelta.phi -= (signY * OrbitControls.TWO_PI * deltaY * this.rotateSpeed) / height;
   }
 
   //
-  // Event handlers - FSM: listen for events and reset state
+  // intent callbacks - update the object state
   //
 
-  private onPointerDown(event: PointerEvent) {
+  private onIntent(intent: CameraIntent) {
     if (!this.enabled) return;
 
-    if (this.pointers.length === 0) {
-      this.canvas.setPointerCapture(event.pointerId);
-      this.canvas.addEventListener("pointermove", this.eventListeners.pointermove);
-      this.canvas.addEventListener("pointerup", this.eventListeners.pointerup);
-    }
-
-    this.pointers.push(event);
-
-    if (event.pointerType === "touch") this.onTouchStart(event);
-    else this.onMouseDown(event);
-  }
-
-  private onPointerMove(event: PointerEvent) {
-    if (!this.enabled) return;
-
-    if (event.pointerType === "touch")
-      this.onTouchMove(event.pointerId, event.pageX, event.pageY);
-    else
-      this.onMouseMove(event.clientX, event.clientY);
-  }
-
-  private onPointerUp(event: PointerEvent) {
-    if (!this.enabled) return;
-
-    this.dispatchEvent(_endEvent);
-    this.state = OrbitControls.STATE.NONE;
-
-    this.removePointer(event.pointerId);
-
-    if (this.pointers.length > 0) return;
-
-    this.canvas.releasePointerCapture(event.pointerId);
-    this.canvas.removeEventListener("pointermove", this.eventListeners.pointermove);
-    this.canvas.removeEventListener("pointerup", this.eventListeners.pointerup);
-  }
-
-  private onPointerCancel(event: PointerEvent) {
-    this.removePointer(event.pointerId);
-  }
-
-  private onMouseDown(event: PointerEvent) {
-    let mouseAction;
-    switch (event.button) {
-      case 0: mouseAction = this.mouseButtons.LEFT; break;
-      case 1: mouseAction = this.mouseButtons.MIDDLE; break;
-      case 2: mouseAction = this.mouseButtons.RIGHT; break;
-      default: mouseAction = -1;
-    }
-
-    switch (mouseAction) {
-      case MOUSE.DOLLY:
-        if (!this.enableZoom) return;
-        this.dollyStart.set(event.clientX, event.clientY);
-        this.state = OrbitControls.STATE.DOLLY;
-        break;
-
-      case MOUSE.ROTATE:
-        if (event.ctrlKey || event.metaKey || event.shiftKey) {
-          if (!this.enablePan) return;
-          this.panStart.set(event.clientX, event.clientY);
-          this.state = OrbitControls.STATE.PAN;
-        } else {
-          if (!this.enableRotate) return;
-          this.rotateStart.set(event.clientX, event.clientY);
-          this.state = OrbitControls.STATE.ROTATE;
-        }
-
-        break;
-
-      case MOUSE.PAN:
-        if (event.ctrlKey || event.metaKey || event.shiftKey) {
-          if (!this.enableRotate) return;
-          this.rotateStart.set(event.clientX, event.clientY);
-          this.state = OrbitControls.STATE.ROTATE;
-        } else {
-          if (!this.enablePan) return;
-          this.panStart.set(event.clientX, event.clientY);
-          this.state = OrbitControls.STATE.PAN;
-        }
-
-        break;
-
-      default:
-        this.state = OrbitControls.STATE.NONE;
-    }
-
-    if (this.state !== OrbitControls.STATE.NONE)
-      this.dispatchEvent(_startEvent);
-  }
-
-  private onMouseMove(x: number, y: number) {
-    switch (this.state) {
-      case OrbitControls.STATE.ROTATE:
-        if (!this.enableRotate) return;
-        this.handleMouseMoveRotate(x, y);
-        this.update();
-        break;
-
-      case OrbitControls.STATE.DOLLY:
-        if (!this.enableZoom) return;
-        this.handleMouseMoveDolly(x, y);
-        this.update();
-        break;
-
-      case OrbitControls.STATE.PAN:
-        if (!this.enablePan) return;
-        this.handleMouseMovePan(x, y);
-        this.update();
-        break;
-    }
-  }
-
-  private onMouseWheel(event: WheelEvent) {
-    if (
-      !this.enabled ||
-      !this.enableZoom ||
-      (this.state !== OrbitControls.STATE.NONE &&
-        this.state !== OrbitControls.STATE.ROTATE)
-    )
-      return;
-
-    event.preventDefault();
-    this.dispatchEvent(_startEvent);
-    this.handleMouseWheel(event);
-    this.dispatchEvent(_endEvent);
-  }
-
-  private onKeyDown(event: KeyboardEvent) {
-    if (!this.enabled || !this.enablePan) return;
-    this.handleKeyDown(event);
-  }
-
-  private onTouchStart(event: PointerEvent) {
-    this.trackPointer(event.pointerId, event.pageX, event.pageY);
-
-    if (this.pointers.length === 1 && this.touches.ONE === TOUCH.ROTATE) {
-      if (!this.enableRotate) return;
-      this.handleTouchStartTransform(this.rotateStart);
-      this.state = OrbitControls.STATE.TOUCH_ROTATE;
-    }
-    else if (this.pointers.length === 1 && this.touches.ONE === TOUCH.PAN) {
-      if (!this.enablePan) return;
-      this.handleTouchStartTransform(this.panStart);
-      this.state = OrbitControls.STATE.TOUCH_PAN;
-    }
-    else if (this.pointers.length === 2 && this.touches.TWO === TOUCH.DOLLY_PAN) {
-      if (!this.enableZoom && !this.enablePan) return;
-      if (this.enableZoom) this.handleTouchStartDolly();
-      if (this.enablePan) this.handleTouchStartTransform(this.panStart);
-      this.state = OrbitControls.STATE.TOUCH_DOLLY_PAN;
-    }
-    else if (this.pointers.length === 2 && this.touches.TWO === TOUCH.DOLLY_ROTATE) {
-      if (!this.enableZoom && !this.enableRotate) return;
-      if (this.enableZoom) this.handleTouchStartDolly();
-      if (this.enableRotate) this.handleTouchStartTransform(this.rotateStart);
-      this.state = OrbitControls.STATE.TOUCH_DOLLY_ROTATE;
-    }
-    else
-      this.state = OrbitControls.STATE.NONE;
-
-    if (this.state !== OrbitControls.STATE.NONE)
-      this.dispatchEvent(_startEvent);
-  }
+    switch (intent.Type) {
+      case "start":
+        this.interacting = true;
+        this.dispatchEvent(_startEvent);
+        return;
 
-  private onTouchMove(pointerId: number, x: number, y: number) {
-    this.trackPointer(pointerId, x, y);
+      case "end":
+        this.interacting = false;
+        this.dispatchEvent(_endEvent);
+        return;
 
-    switch (this.state) {
-      case OrbitControls.STATE.TOUCH_ROTATE:
+      case "rotate":
         if (!this.enableRotate) return;
-        this.handleTouchMoveRotate(pointerId, x, y);
-        this.update();
+        this.rotate(intent.DeltaX, intent.DeltaY);
         break;
 
-      case OrbitControls.STATE.TOUCH_PAN:
+      case "pan":
         if (!this.enablePan) return;
-        this.handleTouchMovePan(pointerId, x, y);
-        this.update();
-        break;
-
-      case OrbitControls.STATE.TOUCH_DOLLY_PAN:
-        if (!this.enableZoom && !this.enablePan) return;
-        if (this.enableZoom) this.handleTouchMoveDolly(pointerId, x, y);
-        if (this.enablePan) this.handleTouchMovePan(pointerId, x, y);
-        this.update();
+        this.pan(
+          intent.DeltaX * this.panSpeed,
+          intent.DeltaY * this.panSpeed,
+          this.inputProvider.ViewportWidth,
+          this.inputProvider.ViewportHeight
+        );
         break;
 
-      case OrbitControls.STATE.TOUCH_DOLLY_ROTATE:
-        if (!this.enableZoom && !this.enableRotate) return;
-        if (this.enableZoom) this.handleTouchMoveDolly(pointerId, x, y);
-        if (this.enableRotate) this.handleTouchMoveRotate(pointerId, x, y);
-        this.update();
+      case "dolly":
+        if (!this.enableZoom) return;
+        this.dolly(intent.Scale);
         break;
 
-      default:
-        this.state = OrbitControls.STATE.NONE;
-    }
-  }
-
-  private onContextMenu(event: MouseEvent) {
-    if (!this.enabled) return;
-    event.preventDefault();
-  }
-
-  private removePointer(pointerId: number) {
-    this.pointerPositions.delete(pointerId);
-
-    for (let i = 0; i < this.pointers.length; i++) {
-      if (this.pointers[i].pointerId === pointerId) {
-        this.pointers.splice(i, 1);
-        return;
-      }
-    }
-  }
-
-  private trackPointer(pointerId: number, x: number, y: number) {
-    let position = this.pointerPositions.get(pointerId);
-
-    if (position === undefined) {
-      position = new Vector2();
-      this.pointerPositions.set(pointerId, position);
+      case "move":
+        return; // Orbiting has no free movement, see FlyControls
     }
 
-    position.set(x, y);
-  }
-
-  private getSecondPointerPosition(pointerId: number) {
-    const pIndex = pointerId === this.pointers[0].pointerId ? 1 : 0;
-    return this.pointerPositions.get(this.pointers[pIndex].pointerId);
+    this.update();
   }
 }
@@ -0,0 +1,29 @@
+import { Node } from "../Rendering/Abstractions";
+
+/** Which date of each commit decides when playback reveals it */
+export type PlaybackOrder = "commit-date" | "author-date";
+
+/** Controls for replaying how a repository's history grew, commit by commit */
+export interface IHistoryPlayback {
+  /** Commits revealed per second while playing */
+  Speed: number;
+  /** Whether playing past the newest commit starts over from the oldest one */
+  Loop: boolean;
+  /** Changing the order keeps the number of revealed commits */
+  Order: PlaybackOrder;
+  /** Every node, in the order they are revealed */
+  readonly Nodes: readonly Node[];
+  /** Number of commits revealed, which is fractional while playing. Equals {@link Count} when showing everything. */
+  readonly Position: number;
+  readonly Count: number;
+  readonly Playing: boolean;
+  /** The most recently revealed commit, or null if none are */
+  readonly Current: Node | null;
+  /** Whether playback shows part of the history, rather than all of it */
+  readonly Active: boolean;
+  /** Starts playing, from the oldest commit if every commit is already revealed */
+  Play(): void;
+  Pause(): void;
+  /** Reveals the given number of commits at once, without growing them in */
+  Seek(position: number): void;
+}
@@ -0,0 +1,178 @@
+import { getGenerations, sortTopologically } from "../NodeGraph";
+import { Node } from "../Rendering/Abstractions";
+import { IHistoryPlayback, PlaybackOrder } from "./Abstractions";
+
+/**
+ * Replays the growth of a repository: commits are revealed one after another in date order, and grow in as they appear.
+ * Commits are never revealed before their parents, even when their dates say otherwise
+ * (e.g. from clock skew or rebases).
+ * Playback only moves when {@link Update} is called, so it runs on the render loop (or on a fake clock).
+ */
+export class HistoryPlayback implements IHistoryPlayback {
+  /** How long a revealed commit takes to grow to full size */
+  private static readonly GROW_MS = 400;
+  /** How long a looping playback shows the whole history before starting over */
+  private static readonly LOOP_HOLD_MS = 1500;
+
+  public Speed = 10;
+  public Loop = false;
+
+  private leafNodes: Node[] = [];
+  private order: PlaybackOrder = "commit-date";
+  /** Every node, in the order they are revealed */
+  private nodes: Node[] = [];
+  private ranks = new Map<Node, number>();
+
+  /** Number of commits revealed, including a fraction of the next one while playing */
+  private position = 0;
+  private revealedCount = 0;
+  private playing = false;
+  private holdMs = 0;
+  /** Growth of the revealed commits that haven't grown to full size yet */
+  private growing = new Map<Node, number>();
+  /** Growth of every node whose growth changed since the last update */
+  private changes = new Map<Node, number>();
+
+  public get Order(): PlaybackOrder {
+    return this.order;
+  }
+
+  public set Order(order: PlaybackOrder) {
+    if (order === this.order) return;
+    this.order = order;
+    this.sortNodes();
+    this.growing.clear();
+    this.nodes.forEach((node, rank) => this.changes.set(node, rank < this.revealedCount ? 1 : 0));
+  }
+
+  public get Nodes(): readonly Node[] {
+    return this.nodes;
+  }
+
+  public get Position(): number {
+    return this.position;
+  }
+
+  public get Count(): number {
+    return this.nodes.length;
+  }
+
+  public get Playing(): boolean {
+    return this.playing;
+  }
+
+  public get Current(): Node | null {
+    return this.revealedCount > 0 ? this.nodes[this.revealedCount - 1] : null;
+  }
+
+  public get Active(): boolean {
+    return this.playing || this.revealedCount < this.nodes.length;
+  }
+
+  /** Replaces the history being played, stopping playback and revealing every commit */
+  public SetNodes(leafNodes: Node[]): void {
+    this.leafNodes = leafNodes;
+    this.sortNodes();
+    this.position = this.nodes.length;
+    this.revealedCount = this.nodes.length;
+    this.playing = false;
+    this.growing.clear();
+    this.changes.clear(); // Changes were for the old nodes
+  }
+
+  public IsRevealed(node: Node): boolean {
+    return (this.ranks.get(node) ?? 0) < this.revealedCount;
+  }
+
+  public Play(): void {
+    if (this.nodes.length === 0) return;
+    if (this.revealedCount >= this.nodes.length) this.Seek(0);
+    this.playing = true;
+    this.holdMs = 0;
+  }
+
+  public Pause(): void {
+    this.playing = false;
+  }
+
+  public Seek(position: number): void {
+    this.position = Math.min(Math.max(position, 0), this.nodes.length);
+    this.holdMs = 0;
+    this.reveal(Math.floor(this.position), false);
+  }
+
+  /**
+   * Advances playback, and the growth of revealed commits
+   * @param elapsedMilliseconds Time since the last update
+   * @returns Growth of every node whose growth changed since the last update, from 0 (hidden) to 1 (fully grown)
+   */
+  public Update(elapsedMilliseconds: number): Map<Node, number> {
+    if (this.playing) this.advance(elapsedMilliseconds);
+
+    const growth = elapsedMilliseconds / HistoryPlayback.GROW_MS;
+    this.growing.forEach((oldGrowth, node) => {
+      const newGrowth = Math.min(oldGrowth + growth, 1);
+      this.changes.set(node, newGrowth);
+      if (newGrowth < 1) this.growing.set(node, newGrowth);
+      else this.growing.delete(node);
+    });
+
+    const changes = this.changes;
+    this.changes = new Map<Node, number>();
+    return changes;
+  }
+
+  private advance(elapsedMilliseconds: number) {
+    const count = this.nodes.length;
+    if (this.position >= count) {
+      if (!this.Loop) {
+        this.playing = false;
+        return;
+      }
+
+      // Show the whole history for a moment before starting over
+      this.holdMs += elapsedMilliseconds;
+      if (this.holdMs >= HistoryPlayback.LOOP_HOLD_MS) this.Seek(0);
+      return;
+    }
+
+    this.position = Math.min(this.position + (this.Speed * elapsedMilliseconds) / 1000, count);
+    this.reveal(Math.floor(this.position), true);
+    if (this.position >= count && !this.Loop) this.playing = false;
+  }
+
+  /** Reveals the first `count` nodes and hides the rest, changing only the nodes in between */
+  private reveal(count: number, grow: boolean) {
+    for (let rank = count; rank < this.revealedCount; ++rank) {
+      this.growing.delete(this.nodes[rank]);
+      this.changes.set(this.nodes[rank], 0);
+    }
+    for (let rank = this.revealedCount; rank < count; ++rank) {
+      if (grow) this.growing.set(this.nodes[rank], 0);
+      else this.changes.set(this.nodes[rank], 1);
+    }
+    this.revealedCount = count;
+  }
+
+  /**
+   * Sorts nodes by date, where a commit's date is never before its parents' dates,
+   * so parents are always revealed first.
+   * Ties (including commits without dates, which take their parents' date) go to the commit with fewer ancestors.
+   */
+  private sortNodes() {
+    const sortedNodes = sortTopologically(this.leafNodes);
+    const generations = getGenerations(sortedNodes);
+    const times = new Map<Node, number>();
+    sortedNodes.forEach((node) => {
+      const signature = this.order === "author-date" ? node.Commit?.Author : node.Commit?.Committer;
+      const parentTime = node.Parents.reduce((max, x) => Math.max(max, times.get(x) ?? -Infinity), -Infinity);
+      times.set(node, Math.max(signature?.Date.getTime() ?? -Infinity, parentTime));
+    });
+
+    this.nodes = sortedNodes
+      .map((node, index) => ({ node, index, time: times.get(node)!, generation: generations.get(node)! }))
+      .sort((a, b) => a.time - b.time || a.generation - b.generation || a.index - b.index)
+      .map((x) => x.node);
+    this.ranks = new Map(this.nodes.map((node, rank) => [node, rank]));
+  }
+}
@@ -0,0 +1,73 @@
+import { IHistoryPlayback, PlaybackOrder } from "./Abstractions";
+
+/**
+ * Connects the timeline of the `Playback` partial to a history playback: a play/pause button, a scrubber,
+ * and the order, speed and loop controls. The timeline is hidden while there's no history to play.
+ */
+export class PlaybackPanel {
+  private readonly element: HTMLElement;
+  private readonly playback: IHistoryPlayback;
+
+  /** @param element Root element of the rendered `Playback` partial */
+  public constructor(element: HTMLElement, playback: IHistoryPlayback) {
+    this.element = element;
+    this.playback = playback;
+
+    this.find("js-playback-toggle").addEventListener("click", () => {
+      if (this.playback.Playing) this.playback.Pause();
+      else this.playback.Play();
+      this.Refresh();
+    });
+    this.find("js-playback-position").addEventListener("input", (e) => {
+      this.playback.Seek(Number((e.target as HTMLInputElement).value));
+      this.Refresh();
+    });
+
+    const order = this.find("js-playback-order") as HTMLSelectElement;
+    order.value = this.playback.Order;
+    order.addEventListener("change", () => {
+      this.playback.Order = order.value as PlaybackOrder;
+      this.Refresh();
+    });
+
+    const speed = this.find("js-playback-speed") as HTMLSelectElement;
+    speed.value = String(this.playback.Speed);
+    speed.addEventListener("change", () => (this.playback.Speed = Number(speed.value)));
+
+    const loop = this.find("js-playback-loop") as HTMLInputElement;
+    loop.checked = this.playback.Loop;
+    loop.addEventListener("change", () => (this.playback.Loop = loop.checked));
+
+    this.Refresh();
+  }
+
+  /** Shows the playback's current state */
+  public Refresh(): void {
+    const count = this.playback.Count;
+    this.element.classList.toggle("d-none", count === 0);
+    if (count === 0) return;
+
+    const playing = this.playback.Playing;
+    const toggle = this.find("js-playback-toggle");
+    const toggleLabel = (playing ? toggle.dataset.pauseLabel : toggle.dataset.playLabel) ?? "";
+    toggle.title = toggleLabel;
+    toggle.setAttribute("aria-label", toggleLabel);
+    this.find("js-playback-play-icon").classList.toggle("d-none", playing);
+    this.find("js-playback-pause-icon").classList.toggle("d-none", !playing);
+
+    const position = this.find("js-playback-position") as HTMLInputElement;
+    position.max = String(count);
+    position.value = String(Math.floor(this.playback.Position));
+
+    const current = this.playback.Current;
+    const signature = this.playback.Order === "author-date" ? current?.Commit?.Author : current?.Commit?.Committer;
+    const revealed = `${Math.floor(this.playback.Position)} of ${count}`;
+    this.find("js-playback-current").textContent = signature
+      ? `${revealed} · ${signature.Date.toLocaleDateString()}`
+      : revealed;
+  }
+
+  private find(className: string): HTMLElement {
+    return this.element.getElementsByClassName(className)[0] as HTMLElement;
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./HistoryPlayback";
+export * from "./PlaybackPanel";
@@ -1,17 +1,122 @@
+import { DEFAULT_ENGINE_SETTINGS, EngineSettings } from "../Abstractions";
+
+/** The person and time associated with authoring or committing a commit */
+export interface Signature {
+  Name: string;
+  Email: string;
+  Date: Date;
+}
+
+export type RefType = "head" | "branch" | "remote" | "tag";
+
+/** A named reference (branch, tag, etc.) pointing at a commit */
+export interface Ref {
+  /** Short name of the ref, e.g. "main" for refs/heads/main */
+  Name: string;
+  Type: RefType;
+}
+
+/** How much a commit changed, relative to its first parent */
+export interface ChangeStats {
+  FilesChanged: number;
+  /** Lines added */
+  Insertions: number;
+  /** Lines removed */
+  Deletions: number;
+}
+
+/** Git metadata for nodes that represent commits */
+export interface CommitMetadata {
+  Author: Signature;
+  Committer: Signature;
+  /** First line of the commit message */
+  Subject: string;
+  /** Full commit message, including the subject */
+  Message: string;
+  Refs: Ref[];
+  /** Null if the node provider doesn't know, since working it out means diffing trees */
+  Stats: ChangeStats | null;
+}
+
 /**
  * Represents a node in a directed acyclic graph
  */
 export class Node {
   Id: string;
   Label: string;
-  Parent: Node | null;
-  constructor(id: string, label: string, parent: Node | null) {
+  /** Ordered parents of this node. The first parent is kept distinct from merged-in parents. */
+  Parents: Node[] = [];
+  /** Back-links to every node that lists this node as a parent */
+  Children: Node[] = [];
+  /** Commit metadata, for nodes that came from a git repository */
+  Commit: CommitMetadata | null = null;
+  constructor(id: string, label: string, parents: Node[] = []) {
     this.Id = id;
     this.Label = label;
-    this.Parent = parent;
+    parents.forEach((x) => this.AddParent(x));
+  }
+
+  /** The parent that this node was derived from, or null for root nodes */
+  get FirstParent(): Node | null {
+    return this.Parents.length > 0 ? this.Parents[0] : null;
+  }
+
+  /** True if this node has more than one parent */
+  get IsMerge(): boolean {
+    return this.Parents.length > 1;
+  }
+
+  /**
+   * Appends a parent to this node and adds the matching child back-link to that parent
+   * @param parent The node to append to {@link Parents}
+   */
+  AddParent(parent: Node): void {
+    this.Parents.push(parent);
+    parent.Children.push(this);
   }
 }
 
 export interface INodeRenderer {
   RenderNodes(leafNodes: Node[]): Promise<void>;
 }
+
+/** Box drawing characters, or plain ASCII for terminals and fonts without them */
+export type TextGraphCharset = "unicode" | "ascii";
+
+/** How {@link renderTextGraph} draws a graph */
+export interface TextGraphOptions {
+  Charset: TextGraphCharset;
+  /** Number of characters of each node's ID (commit sha) that are shown */
+  IdLength: number;
+  /** Whether refs are shown after the ID, like `git log --decorate` */
+  ShowRefs: boolean;
+}
+
+export const DEFAULT_TEXT_GRAPH_OPTIONS: TextGraphOptions = {
+  Charset: "unicode",
+  IdLength: 7,
+  ShowRefs: true,
+};
+
+/** How {@link renderSvgGraph} draws a graph. Colors are CSS colors, and sizes are in SVG units. */
+export interface SvgGraphOptions
+  extends Pick<EngineSettings, "NodeColor" | "EdgeColor" | "ColorMode" | "ColorPalette" | "BackgroundColor"> {
+  NodeRadius: number;
+  EdgeWidth: number;
+  /** Whether the background is left transparent, rather than filled with the background color */
+  TransparentBackground: boolean;
+  /** Whether the legend of the color mode (if any) is drawn in the bottom left corner */
+  IncludeLegend: boolean;
+}
+
+export const DEFAULT_SVG_GRAPH_OPTIONS: SvgGraphOptions = {
+  NodeColor: DEFAULT_ENGINE_SETTINGS.NodeColor,
+  EdgeColor: DEFAULT_ENGINE_SETTINGS.EdgeColor,
+  ColorMode: DEFAULT_ENGINE_SETTINGS.ColorMode,
+  ColorPalette: DEFAULT_ENGINE_SETTINGS.ColorPalette,
+  BackgroundColor: DEFAULT_ENGINE_SETTINGS.BackgroundColor,
+  NodeRadius: 5,
+  EdgeWidth: 1.5,
+  TransparentBackground: false,
+  IncludeLegend: true,
+};
@@ -4,15 +4,24 @@ const outputElem = document.getElementsByClassName("js-output")[0];
 
 export class DomNodeRenderer implements INodeRenderer {
   async RenderNodes(nodes: Node[]): Promise<void> {
+    const lines: string[] = [];
     for (let n = 0; n < nodes.length; ++n) {
       const labels: string[] = [];
       let node: Node | null = nodes[n];
       do {
-        labels.push(node.Label);
-        node = node.Parent;
+        // Follow first parents, but still mention any merged-in parents
+        const mergedLabels = node.Parents.slice(1).map((x) => x.Label);
+        labels.push(
+          mergedLabels.length > 0
+            ? `${node.Label} (+ ${mergedLabels.join(", ")})`
+            : node.Label
+        );
+        node = node.FirstParent;
       } while (node);
 
-      outputElem.textContent = labels.join(" -> ");
+      lines.push(labels.join(" -> "));
     }
+
+    outputElem.textContent = lines.join("\n");
   }
 }
@@ -0,0 +1,129 @@
+import { Box2, Color, Vector2 } from "three";
+import { colorNodes } from "../Coloring";
+import { Legend } from "../Coloring/Abstractions";
+import { DEFAULT_SVG_GRAPH_OPTIONS, Node, SvgGraphOptions } from "./Abstractions";
+
+const FONT_FAMILY = "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+// Sizes are in SVG units
+const FONT_SIZE = 12;
+const LINE_HEIGHT = 1.5;
+const MARGIN = 16;
+const SWATCH_SIZE = 10;
+const GRADIENT_WIDTH = 160;
+const GRADIENT_HEIGHT = 10;
+const DARK_TEXT_COLOR = "#212529";
+const LIGHT_TEXT_COLOR = "#f8f9fa";
+
+/**
+ * Draws a graph as a standalone SVG document, e.g. for documentation.
+ * Each node is a circle with a `data-id` attribute and a tooltip, and every parent link is part of one path.
+ * Doesn't need a browser, so that SVGs can be made offline.
+ * @param nodes The nodes to draw. Parent links to other nodes are left out.
+ * @param positions Where each node is, in SVG units (y down). Nodes without a position are left out.
+ */
+export function renderSvgGraph(
+  nodes: readonly Node[],
+  positions: ReadonlyMap<Node, Vector2>,
+  options: Partial<SvgGraphOptions> = {}
+): string {
+  const { NodeColor, EdgeColor, ColorMode, ColorPalette, BackgroundColor, NodeRadius, EdgeWidth, ...rest } = {
+    ...DEFAULT_SVG_GRAPH_OPTIONS,
+    ...options,
+  };
+  const drawn = nodes.filter((x) => positions.has(x));
+  const drawnSet = new Set(drawn);
+  const coloring = colorNodes(drawn, ColorMode, ColorPalette);
+  const legend = rest.IncludeLegend ? coloring?.Legend ?? null : null;
+  const textColor =
+    rest.TransparentBackground || new Color(BackgroundColor).getHSL({ h: 0, s: 0, l: 0 }).l > 0.5
+      ? DARK_TEXT_COLOR
+      : LIGHT_TEXT_COLOR;
+
+  // Fit the view to the nodes, with the legend below them
+  const bounds = new Box2().setFromPoints(drawn.map((x) => positions.get(x)!));
+  if (bounds.isEmpty()) bounds.set(new Vector2(), new Vector2());
+  bounds.expandByScalar(NodeRadius + MARGIN);
+  const left = bounds.min.x;
+  const top = bounds.min.y;
+  const graphBottom = bounds.max.y;
+  const legendLines = legend ? 1 + legend.Entries.length + (legend.Gradient ? 2 : 0) : 0;
+  const width = Math.max(bounds.max.x - left, legend?.Gradient ? GRADIENT_WIDTH + 2 * MARGIN : 0);
+  const height = graphBottom - top + legendLines * FONT_SIZE * LINE_HEIGHT + (legend ? MARGIN : 0);
+
+  const round = (x: number) => Number(x.toFixed(2));
+  const edgePath = drawn
+    .flatMap((node) =>
+      node.Parents.filter((x) => drawnSet.has(x)).map((parent) => {
+        const from = positions.get(node)!;
+        const to = positions.get(parent)!;
+        return `M${round(from.x)} ${round(from.y)}L${round(to.x)} ${round(to.y)}`;
+      })
+    )
+    .join("");
+  const circles = drawn.map((node) => {
+    const position = positions.get(node)!;
+    const color = coloring?.Colors.get(node) ?? NodeColor;
+    const title = `${node.Id.substring(0, 7)} ${node.Commit?.Subject ?? node.Label}`;
+    return (
+      `<circle cx="${round(position.x)}" cy="${round(position.y)}" r="${NodeRadius}" fill="${escapeXml(color)}" ` +
+      `data-id="${escapeXml(node.Id)}"><title>${escapeXml(title)}</title></circle>`
+    );
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${round(left)} ${round(top)} ${round(width)} ${round(height)}" ` +
+      `width="${Math.ceil(width)}" height="${Math.ceil(height)}" ` +
+      `font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}">`,
+    rest.TransparentBackground
+      ? ""
+      : `<rect x="${round(left)}" y="${round(top)}" width="100%" height="100%" fill="${escapeXml(BackgroundColor)}"/>`,
+    `<path class="g3d-svg-edges" d="${edgePath}" fill="none" ` +
+      `stroke="${escapeXml(EdgeColor)}" stroke-width="${EdgeWidth}"/>`,
+    `<g class="g3d-svg-nodes">${circles.join("")}</g>`,
+    legend ? renderLegend(legend, left + MARGIN, graphBottom, textColor) : "",
+    "</svg>",
+  ]
+    .filter((x) => x !== "")
+    .join("\n");
+}
+
+/** Draws a legend downward from the given point, laid out like the legend overlay on screen */
+function renderLegend(legend: Legend, x: number, top: number, textColor: string): string {
+  const lineHeight = FONT_SIZE * LINE_HEIGHT;
+  const lines: string[] = [];
+  let y = top + lineHeight / 2;
+  const text = (content: string, textX: number, attributes = "") =>
+    `<text x="${textX}" y="${y}" dominant-baseline="middle" fill="${textColor}"${attributes}>` +
+    `${escapeXml(content)}</text>`;
+
+  lines.push(text(legend.Title, x, ` font-weight="bold"`));
+  y += lineHeight;
+
+  const gradient = legend.Gradient;
+  if (gradient) {
+    const stops = gradient.Colors.map(
+      (color, index) => `<stop offset="${index / (gradient.Colors.length - 1)}" stop-color="${color}"/>`
+    );
+    lines.push(`<defs><linearGradient id="g3d-legend-gradient">${stops.join("")}</linearGradient></defs>`);
+    lines.push(
+      `<rect x="${x}" y="${y - GRADIENT_HEIGHT / 2}" width="${GRADIENT_WIDTH}" height="${GRADIENT_HEIGHT}" ` +
+        `fill="url(#g3d-legend-gradient)"/>`
+    );
+    y += lineHeight;
+    lines.push(text(gradient.StartLabel, x));
+    lines.push(text(gradient.EndLabel, x + GRADIENT_WIDTH, ` text-anchor="end"`));
+    y += lineHeight;
+  }
+
+  legend.Entries.forEach((entry) => {
+    lines.push(`<circle cx="${x + SWATCH_SIZE / 2}" cy="${y}" r="${SWATCH_SIZE / 2}" fill="${entry.Color}"/>`);
+    lines.push(text(entry.Label, x + SWATCH_SIZE * 1.5));
+    y += lineHeight;
+  });
+
+  return `<g class="g3d-svg-legend">${lines.join("")}</g>`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (x) => `&#${x.charCodeAt(0)};`);
+}
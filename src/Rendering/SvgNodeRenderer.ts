@@ -0,0 +1,184 @@
+import { Vector2 } from "three";
+import { colorNodes } from "../Coloring";
+import { Legend } from "../Coloring/Abstractions";
+import { ILayoutEngine, isIncrementalLayoutEngine } from "../Layout/Abstractions";
+import { getAllNodes } from "../NodeGraph";
+import { DEFAULT_SVG_GRAPH_OPTIONS, INodeRenderer, Node, SvgGraphOptions } from "./Abstractions";
+import { renderSvgGraph } from "./SvgGraph";
+
+/**
+ * Draws the graph as an interactive 2D SVG in an element: drag to pan, scroll to zoom and click commits to select them.
+ * Works without WebGL. Layouts are seen from the front, so they should keep to one plane (like a layered layout
+ * with every lane in one plane). Incremental layouts are run until they settle before the graph is drawn.
+ */
+export class SvgNodeRenderer implements INodeRenderer {
+  /** SVG units per layout unit */
+  private static readonly UNIT_SIZE = 24;
+  /** How much one pixel of wheel scrolling zooms, on a log scale */
+  private static readonly ZOOM_SPEED = 0.002;
+  /** Pointers that move farther than this many pixels between press and release are dragging, not clicking */
+  private static readonly CLICK_MAX_DISTANCE = 4;
+  /** Most steps that an incremental layout is run for, in case it doesn't settle */
+  private static readonly MAX_LAYOUT_STEPS = 1000;
+  private static readonly SELECTED_CLASS = "g3d-svg-selected";
+
+  private readonly element: HTMLElement;
+  private readonly onNodeClicked: (node: Node | null) => void;
+  private layoutEngine: ILayoutEngine;
+  private options: SvgGraphOptions;
+
+  private leafNodes: Node[] = [];
+  private nodes: Node[] = [];
+  private nodesById = new Map<string, Node>();
+  private positions = new Map<Node, Vector2>();
+  private selectedNode: Node | null = null;
+  private svg: SVGSVGElement | null = null;
+  /** Where the pointer was pressed, in client pixels, or null if it isn't pressed */
+  private pointerDownPosition: Vector2 | null = null;
+  private readonly lastPointerPosition = new Vector2();
+
+  /**
+   * @param element Element to draw into, whose contents are replaced
+   * @param onNodeClicked Called with the clicked node, or with null when the background is clicked
+   */
+  public constructor(
+    element: HTMLElement,
+    layoutEngine: ILayoutEngine,
+    options: Partial<SvgGraphOptions> = {},
+    onNodeClicked: (node: Node | null) => void = () => undefined
+  ) {
+    this.element = element;
+    this.layoutEngine = layoutEngine;
+    this.options = { ...DEFAULT_SVG_GRAPH_OPTIONS, ...options };
+    this.onNodeClicked = onNodeClicked;
+
+    this.element.addEventListener("wheel", (e) => this.onWheel(e), { passive: false });
+    this.element.addEventListener("pointerdown", (e) => {
+      if (e.button !== 0) return;
+      this.pointerDownPosition = new Vector2(e.clientX, e.clientY);
+      this.lastPointerPosition.copy(this.pointerDownPosition);
+      this.element.setPointerCapture(e.pointerId);
+    });
+    this.element.addEventListener("pointermove", (e) => this.onPointerMove(e));
+    this.element.addEventListener("pointerup", (e) => this.onPointerUp(e));
+  }
+
+  RenderNodes(leafNodes: Node[]): Promise<void> {
+    this.leafNodes = leafNodes;
+    this.nodes = getAllNodes(leafNodes);
+    this.nodesById = new Map(this.nodes.map((x) => [x.Id, x]));
+    if (this.selectedNode) this.selectedNode = this.nodesById.get(this.selectedNode.Id) ?? null;
+    this.computeLayout();
+    this.draw(false);
+    return Promise.resolve();
+  }
+
+  /** Changes how nodes are positioned, re-laying out the current graph */
+  public SetLayoutEngine(layoutEngine: ILayoutEngine): void {
+    this.layoutEngine = layoutEngine;
+    this.computeLayout();
+    this.draw(false);
+  }
+
+  /** Changes how the graph is drawn, keeping the view where it is */
+  public SetOptions(options: Partial<SvgGraphOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.draw(true);
+  }
+
+  public get SelectedNode(): Node | null {
+    return this.selectedNode;
+  }
+
+  /** Outlines a node, or no node if null */
+  public SelectNode(node: Node | null): void {
+    this.selectedNode = node;
+    this.element
+      .querySelectorAll(`.${SvgNodeRenderer.SELECTED_CLASS}`)
+      .forEach((x) => x.classList.remove(SvgNodeRenderer.SELECTED_CLASS));
+    if (node) this.findCircle(node)?.classList.add(SvgNodeRenderer.SELECTED_CLASS);
+  }
+
+  /** Explains the node colors of the color mode, or null if every node has the same color */
+  public get Legend(): Legend | null {
+    return colorNodes(this.nodes, this.options.ColorMode, this.options.ColorPalette)?.Legend ?? null;
+  }
+
+  /** @returns The whole graph as a standalone SVG document, e.g. to save as a .svg file */
+  public ToSvg(): string {
+    return renderSvgGraph(this.nodes, this.positions, this.options);
+  }
+
+  private computeLayout() {
+    const layout = this.layoutEngine.ComputeLayout(this.leafNodes);
+    if (isIncrementalLayoutEngine(this.layoutEngine))
+      for (let step = 0; step < SvgNodeRenderer.MAX_LAYOUT_STEPS && this.layoutEngine.Step(); ++step);
+
+    // Seen from the front: x is right and y is up, but SVG's y is down
+    this.positions = new Map<Node, Vector2>();
+    layout.forEach((position, node) =>
+      this.positions.set(node, new Vector2(position.x, -position.y).multiplyScalar(SvgNodeRenderer.UNIT_SIZE))
+    );
+  }
+
+  /** @param keepView Whether to keep the view where it is, rather than showing the whole graph */
+  private draw(keepView: boolean) {
+    const viewBox = keepView && this.svg ? this.svg.getAttribute("viewBox") : null;
+    // The legend is left to the page, since it would pan and zoom along with the graph
+    this.element.innerHTML = renderSvgGraph(this.nodes, this.positions, { ...this.options, IncludeLegend: false });
+    this.svg = this.element.querySelector("svg");
+    if (!this.svg) return;
+
+    this.svg.setAttribute("width", "100%");
+    this.svg.setAttribute("height", "100%");
+    if (viewBox) this.svg.setAttribute("viewBox", viewBox);
+    this.SelectNode(this.selectedNode);
+  }
+
+  private findCircle(node: Node): Element | null {
+    const circles = this.element.querySelectorAll("circle[data-id]");
+    return Array.from(circles).find((x) => x.getAttribute("data-id") === node.Id) ?? null;
+  }
+
+  /** @returns How many pixels one SVG unit takes up on screen */
+  private get pixelsPerUnit(): number {
+    return this.svg?.getScreenCTM()?.a ?? 1;
+  }
+
+  private onWheel(event: WheelEvent) {
+    const svg = this.svg;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return;
+    event.preventDefault();
+
+    // Zoom around the point under the pointer, so that it stays under the pointer
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    const zoom = Math.exp(event.deltaY * SvgNodeRenderer.ZOOM_SPEED);
+    const viewBox = svg.viewBox.baseVal;
+    viewBox.x = point.x - (point.x - viewBox.x) * zoom;
+    viewBox.y = point.y - (point.y - viewBox.y) * zoom;
+    viewBox.width *= zoom;
+    viewBox.height *= zoom;
+  }
+
+  private onPointerMove(event: PointerEvent) {
+    if (!this.pointerDownPosition || !this.svg) return;
+
+    const viewBox = this.svg.viewBox.baseVal;
+    viewBox.x -= (event.clientX - this.lastPointerPosition.x) / this.pixelsPerUnit;
+    viewBox.y -= (event.clientY - this.lastPointerPosition.y) / this.pixelsPerUnit;
+    this.lastPointerPosition.set(event.clientX, event.clientY);
+  }
+
+  private onPointerUp(event: PointerEvent) {
+    const downPosition = this.pointerDownPosition;
+    this.pointerDownPosition = null;
+    const dragDistance = downPosition?.distanceTo(new Vector2(event.clientX, event.clientY)) ?? Infinity;
+    if (dragDistance > SvgNodeRenderer.CLICK_MAX_DISTANCE) return;
+
+    // The pointer is captured, so find what is under it rather than using the event's target
+    const circle = document.elementFromPoint(event.clientX, event.clientY)?.closest("circle[data-id]");
+    const id = circle?.getAttribute("data-id");
+    this.onNodeClicked((id && this.nodesById.get(id)) || null);
+  }
+}
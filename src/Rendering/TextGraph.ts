@@ -0,0 +1,130 @@
+import { sortChildrenFirst } from "../NodeGraph";
+import { DEFAULT_TEXT_GRAPH_OPTIONS, Node, TextGraphOptions } from "./Abstractions";
+
+/** Stand-ins for the box drawing characters, by shape: "." opens downward and "'" closes upward */
+const ASCII_CHARS: { [char: string]: string } = {
+  "●": "*",
+  "│": "|",
+  "─": "-",
+  "┼": "+",
+  "├": "+",
+  "┤": "+",
+  "┬": ".",
+  "┴": "'",
+  "╭": ".",
+  "╮": ".",
+  "╰": "'",
+  "╯": "'",
+};
+
+/**
+ * Draws a graph as text, like `git log --graph`: one line per node, newest first, with lanes drawn to its left.
+ * Each lane leads down to the next node it expects, which is the parent of the node above it.
+ * Lanes that expect the same node join on that node's line,
+ * and a merge's other parents branch off on the line below it.
+ * Doesn't need a browser, and the same graph always gives the same text.
+ * @param leafNodes Nodes without children. Their histories are drawn newest tip first.
+ */
+export function renderTextGraph(leafNodes: Node[], options: Partial<TextGraphOptions> = {}): string {
+  const { Charset, IdLength, ShowRefs } = { ...DEFAULT_TEXT_GRAPH_OPTIONS, ...options };
+  const oldestTipFirst = leafNodes
+    .map((node, index) => ({ node, index, time: node.Commit?.Committer.Date.getTime() ?? 0 }))
+    .sort((a, b) => a.time - b.time || b.index - a.index)
+    .map((x) => x.node);
+
+  /** The node that each lane leads to, or null for a free lane */
+  const lanes: (Node | null)[] = [];
+  const lines: string[] = [];
+  const addLine = (cells: string[], text: string) => {
+    const graph = Charset === "ascii" ? cells.map((x) => ASCII_CHARS[x] ?? x) : cells;
+    lines.push(`${graph.join("")} ${text}`.trimEnd());
+  };
+
+  sortChildrenFirst(oldestTipFirst).forEach((node) => {
+    // Lanes that lead to the node join the leftmost of them. Branch tips start in the first free lane.
+    const joining = lanes.flatMap((x, index) => (x === node ? [index] : []));
+    const column = joining.length > 0 ? joining[0] : freeLane(lanes, 0);
+    lanes[column] = node;
+
+    const nodeCells = drawCells(lanes, column, joining.slice(1), (lane, isEnd, isLeft) =>
+      isEnd ? (isLeft ? "╰" : "╯") : "┴"
+    );
+    nodeCells[2 * column] = "●";
+    addLine(nodeCells, formatNode(node, IdLength, ShowRefs));
+    joining.forEach((x) => (lanes[x] = null));
+
+    // The first parent continues the node's lane. Other parents branch off into their own lanes, or join the lanes
+    // that already lead to them.
+    lanes[column] = node.FirstParent;
+    const newLanes = new Set<number>();
+    const branches: number[] = [];
+    node.Parents.slice(1).forEach((parent) => {
+      if (parent === node.FirstParent) return;
+      let lane = lanes.indexOf(parent);
+      if (lane < 0) {
+        lane = freeLane(lanes, column + 1);
+        lanes[lane] = parent;
+        newLanes.add(lane);
+      }
+      branches.push(lane);
+    });
+    if (branches.length > 0) {
+      const branchCells = drawCells(lanes, column, branches, (lane, isEnd, isLeft) =>
+        newLanes.has(lane) ? (isEnd ? (isLeft ? "╭" : "╮") : "┬") : isEnd ? (isLeft ? "├" : "┤") : "┼"
+      );
+      const hasLeft = branches.some((x) => x < column);
+      const hasRight = branches.some((x) => x > column);
+      branchCells[2 * column] = hasLeft && hasRight ? "┼" : hasLeft ? "┤" : "├";
+      addLine(branchCells, "");
+    }
+
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) lanes.pop();
+  });
+
+  return lines.join("\n");
+}
+
+/** @returns The index of the first free lane at or after the given index, which may be past the last lane */
+function freeLane(lanes: (Node | null)[], start: number): number {
+  for (let lane = start; lane < lanes.length; ++lane) if (lanes[lane] === null) return lane;
+  return Math.max(start, lanes.length);
+}
+
+/**
+ * Draws a line of the graph: the lanes, and a horizontal line from one lane to some others
+ * @param connected Lanes that are connected to the column, and drawn by connectedChar instead
+ * @param connectedChar Returns the character of a connected lane, given whether it's at the end of the line and
+ * whether it's left of the column
+ * @returns One cell per character. Lanes are in the even cells, and the gaps between them in the odd cells.
+ */
+function drawCells(
+  lanes: (Node | null)[],
+  column: number,
+  connected: number[],
+  connectedChar: (lane: number, isEnd: boolean, isLeft: boolean) => string
+): string[] {
+  const width = Math.max(lanes.length, column + 1, ...connected.map((x) => x + 1));
+  const cells: string[] = [];
+  for (let lane = 0; lane < width; ++lane) {
+    if (lane > 0) cells.push(" ");
+    cells.push(lanes[lane] ? "│" : " ");
+  }
+
+  const first = Math.min(column, ...connected);
+  const last = Math.max(column, ...connected);
+  for (let cell = 2 * first + 1; cell < 2 * last; ++cell) {
+    if (cell % 2 === 1) cells[cell] = "─";
+    else cells[cell] = cells[cell] === "│" ? "┼" : "─";
+  }
+  connected.forEach((lane) => (cells[2 * lane] = connectedChar(lane, lane === first || lane === last, lane < column)));
+  return cells;
+}
+
+/** @returns The text after a node's lanes: its short ID, refs and subject */
+function formatNode(node: Node, idLength: number, showRefs: boolean): string {
+  const refs = showRefs
+    ? (node.Commit?.Refs ?? []).map((ref) => (ref.Type === "tag" ? `tag: ${ref.Name}` : ref.Name))
+    : [];
+  const decorations = refs.length > 0 ? ` (${refs.join(", ")})` : "";
+  return `${node.Id.substring(0, idLength)}${decorations} ${node.Commit?.Subject ?? node.Label}`;
+}
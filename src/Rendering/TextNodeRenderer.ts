@@ -0,0 +1,21 @@
+import { INodeRenderer, Node, TextGraphOptions } from "./Abstractions";
+import { renderTextGraph } from "./TextGraph";
+
+/**
+ * Renders the graph as text into an element (ideally a `<pre>`), like `git log --graph`.
+ * Works without WebGL, and screen readers can read it line by line.
+ */
+export class TextNodeRenderer implements INodeRenderer {
+  private readonly element: HTMLElement;
+  private readonly options: Partial<TextGraphOptions>;
+
+  public constructor(element: HTMLElement, options: Partial<TextGraphOptions> = {}) {
+    this.element = element;
+    this.options = options;
+  }
+
+  RenderNodes(leafNodes: Node[]): Promise<void> {
+    this.element.textContent = renderTextGraph(leafNodes, this.options);
+    return Promise.resolve();
+  }
+}
@@ -1 +1,5 @@
 export * from "./DomNodeRenderer";
+export * from "./SvgGraph";
+export * from "./SvgNodeRenderer";
+export * from "./TextGraph";
+export * from "./TextNodeRenderer";
@@ -0,0 +1,37 @@
+import { Node } from "../Rendering/Abstractions";
+
+/** Which commits a search matches, and which commits are shown at all. Empty fields match every commit. */
+export interface CommitFilter {
+  /** Sha prefix, or text in the commit message. Text between slashes, like "/fix(es)?/i", is a regular expression. */
+  Query: string;
+  /** Text in the author's name or email */
+  Author: string;
+  /** Dates are inclusive, in "yyyy-mm-dd" format */
+  Since: string;
+  Until: string;
+  /** Text in the name of a ref pointing at the commit, like "main" */
+  Ref: string;
+  HideMerges: boolean;
+  /** Only shows commits on the first-parent history of HEAD (or of every branch tip, if there's no HEAD) */
+  FirstParentOnly: boolean;
+  /** Whether commits that don't match are hidden, rather than dimmed */
+  HideNonMatching: boolean;
+}
+
+export const DEFAULT_COMMIT_FILTER: CommitFilter = {
+  Query: "",
+  Author: "",
+  Since: "",
+  Until: "",
+  Ref: "",
+  HideMerges: false,
+  FirstParentOnly: false,
+  HideNonMatching: false,
+};
+
+export interface CommitFilterResult {
+  /** Matching commits that are shown, newest first, or null if the filter doesn't search for anything */
+  Matches: Node[] | null;
+  /** Commits that are left out of the graph */
+  Hidden: Node[];
+}
@@ -0,0 +1,114 @@
+import { Node } from "../Rendering/Abstractions";
+import { CommitFilter, CommitFilterResult, DEFAULT_COMMIT_FILTER } from "./Abstractions";
+
+/** Queries like "/fix(es)?/i" are regular expressions */
+const REGEX_QUERY = /^\/(.+)\/([a-z]*)$/;
+/** Queries that look like this match sha prefixes as well as message text */
+const SHA_PREFIX_QUERY = /^[0-9a-f]{4,40}$/i;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** @returns Whether the filter searches for something, rather than just hiding some commits */
+export function isSearchFilter(filter: CommitFilter): boolean {
+  return [filter.Query, filter.Author, filter.Since, filter.Until, filter.Ref].some((x) => x.trim() !== "");
+}
+
+/** Finds the commits that match a filter, and which commits to leave out of the graph */
+export function filterCommits(nodes: readonly Node[], filter: CommitFilter): CommitFilterResult {
+  const firstParentHistory = filter.FirstParentOnly ? getFirstParentHistory(nodes) : null;
+  const shown = nodes.filter(
+    (x) => !(filter.HideMerges && x.IsMerge) && (firstParentHistory === null || firstParentHistory.has(x))
+  );
+
+  const matches = isSearchFilter(filter) ? shown.filter(createMatcher(filter)) : null;
+  const visible = new Set(matches && filter.HideNonMatching ? matches : shown);
+  matches?.sort((a, b) => getCommitTime(b) - getCommitTime(a));
+  return { Matches: matches, Hidden: nodes.filter((x) => !visible.has(x)) };
+}
+
+/** Keeps only the valid fields from untrusted values, like ones loaded from a URL */
+export function sanitizeCommitFilter(values: { [key: string]: unknown }): Partial<CommitFilter> {
+  const filter: Partial<CommitFilter> = {};
+  (Object.keys(DEFAULT_COMMIT_FILTER) as (keyof CommitFilter)[])
+    .filter((key) => typeof values[key] === typeof DEFAULT_COMMIT_FILTER[key])
+    .filter((key) => (key !== "Since" && key !== "Until") || values[key] === "" || parseDate(values[key] as string))
+    .forEach((key) => Object.assign(filter, { [key]: values[key] }));
+  return filter;
+}
+
+function createMatcher(filter: CommitFilter): (node: Node) => boolean {
+  const conditions: ((node: Node) => boolean)[] = [];
+
+  const query = filter.Query.trim();
+  if (query) {
+    const regex = parseRegex(query);
+    const text = query.toLowerCase();
+    if (regex) conditions.push((node) => regex.test(node.Commit?.Message ?? node.Label));
+    else if (SHA_PREFIX_QUERY.test(query))
+      conditions.push((node) => node.Id.toLowerCase().startsWith(text) || getMessage(node).includes(text));
+    else conditions.push((node) => getMessage(node).includes(text));
+  }
+
+  const author = filter.Author.trim().toLowerCase();
+  if (author) {
+    conditions.push((node) => {
+      const signature = node.Commit?.Author;
+      return !!signature && `${signature.Name} <${signature.Email}>`.toLowerCase().includes(author);
+    });
+  }
+
+  // Like git log, dates are committer dates. Until includes the whole day.
+  const since = parseDate(filter.Since.trim());
+  if (since) conditions.push((node) => !!node.Commit && node.Commit.Committer.Date.getTime() >= since.getTime());
+  const until = parseDate(filter.Until.trim());
+  if (until) {
+    const end = until.getTime() + MS_PER_DAY;
+    conditions.push((node) => !!node.Commit && node.Commit.Committer.Date.getTime() < end);
+  }
+
+  const ref = filter.Ref.trim().toLowerCase();
+  if (ref) conditions.push((node) => !!node.Commit?.Refs.some((x) => x.Name.toLowerCase().includes(ref)));
+
+  return (node) => conditions.every((x) => x(node));
+}
+
+/** @returns The regular expression of a "/pattern/flags" query, or null for plain text or invalid expressions */
+function parseRegex(query: string): RegExp | null {
+  const match = REGEX_QUERY.exec(query);
+  if (!match) return null;
+
+  try {
+    return new RegExp(match[1], match[2].replace("g", "")); // Global expressions remember where they last matched
+  } catch {
+    return null;
+  }
+}
+
+/** @returns Midnight (local time) at the start of a "yyyy-mm-dd" date, or null if the date is invalid */
+function parseDate(text: string): Date | null {
+  const match = DATE_PATTERN.exec(text);
+  if (!match) return null;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getDate() === Number(match[3]) ? date : null; // Rejects days like February 30th
+}
+
+function getMessage(node: Node): string {
+  return (node.Commit?.Message ?? node.Label).toLowerCase();
+}
+
+function getCommitTime(node: Node): number {
+  return node.Commit?.Committer.Date.getTime() ?? 0;
+}
+
+/** @returns Every commit on the first-parent history of HEAD, or of every branch tip if there's no HEAD */
+function getFirstParentHistory(nodes: readonly Node[]): Set<Node> {
+  const head = nodes.find((x) => x.Commit?.Refs.some((ref) => ref.Type === "head"));
+  const tips = head ? [head] : nodes.filter((x) => x.Children.length === 0);
+
+  const history = new Set<Node>();
+  tips.forEach((tip) => {
+    for (let node: Node | null = tip; node && !history.has(node); node = node.FirstParent) history.add(node);
+  });
+  return history;
+}
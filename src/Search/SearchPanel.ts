@@ -0,0 +1,93 @@
+import { CommitFilter, DEFAULT_COMMIT_FILTER } from "./Abstractions";
+
+/**
+ * Reads a {@link CommitFilter} from the search form of the `Search` partial, and shows how many commits matched.
+ * Inputs are found by name, which is the filter field that they edit.
+ */
+export class SearchPanel {
+  /** How long typing must pause before searching, so that large graphs aren't searched on every keystroke */
+  private static readonly INPUT_DELAY_MS = 250;
+
+  private readonly form: HTMLFormElement;
+  private readonly onChange: (filter: CommitFilter) => void;
+  private readonly onStep: (step: number) => void;
+  private inputTimeout = 0;
+
+  /**
+   * @param form The rendered `Search` partial
+   * @param onChange Called with the new filter whenever the user changes it
+   * @param onStep Called with 1 or -1 when the user asks for the next or previous match
+   */
+  public constructor(
+    form: HTMLFormElement,
+    onChange: (filter: CommitFilter) => void,
+    onStep: (step: number) => void
+  ) {
+    this.form = form;
+    this.onChange = onChange;
+    this.onStep = onStep;
+
+    this.form.addEventListener("input", (e) => {
+      window.clearTimeout(this.inputTimeout);
+      const typing = (e.target as HTMLInputElement).type !== "checkbox";
+      if (typing) this.inputTimeout = window.setTimeout(() => this.onChange(this.Filter), SearchPanel.INPUT_DELAY_MS);
+      else this.onChange(this.Filter);
+    });
+    this.form.addEventListener("submit", (e) => {
+      e.preventDefault();
+      this.onStep(1);
+    });
+    this.find("js-search-prev").addEventListener("click", () => this.onStep(-1));
+  }
+
+  public get Filter(): CommitFilter {
+    const filter = { ...DEFAULT_COMMIT_FILTER };
+    (Object.keys(filter) as (keyof CommitFilter)[]).forEach((key) => {
+      const input = this.getInput(key);
+      if (input) Object.assign(filter, { [key]: input.type === "checkbox" ? input.checked : input.value });
+    });
+    return filter;
+  }
+
+  /** Shows a filter (e.g. one from a shared link) in the form, without calling onChange */
+  public SetFilter(filter: Partial<CommitFilter>): void {
+    window.clearTimeout(this.inputTimeout);
+    const values = { ...DEFAULT_COMMIT_FILTER, ...filter };
+    (Object.keys(values) as (keyof CommitFilter)[]).forEach((key) => {
+      const input = this.getInput(key);
+      const value = values[key];
+      if (!input) return;
+      if (typeof value === "boolean") input.checked = value;
+      else input.value = value;
+    });
+  }
+
+  /**
+   * @param matchCount Number of matching commits, or null if nothing is being searched for
+   * @param currentIndex Index of the match that was stepped to, or -1 if none
+   */
+  public ShowResults(matchCount: number | null, currentIndex: number): void {
+    const count = this.find("js-search-count");
+    count.textContent =
+      matchCount === null
+        ? ""
+        : matchCount === 0
+        ? "No matches"
+        : currentIndex >= 0
+        ? `${currentIndex + 1} of ${matchCount}`
+        : `${matchCount} ${matchCount === 1 ? "match" : "matches"}`;
+
+    const canStep = (matchCount ?? 0) > 0;
+    (this.find("js-search-prev") as HTMLButtonElement).disabled = !canStep;
+    (this.find("js-search-next") as HTMLButtonElement).disabled = !canStep;
+  }
+
+  private getInput(name: string): HTMLInputElement | null {
+    const input = this.form.elements.namedItem(name);
+    return input instanceof HTMLInputElement ? input : null;
+  }
+
+  private find(className: string): HTMLElement {
+    return this.form.getElementsByClassName(className)[0] as HTMLElement;
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./CommitFilter";
+export * from "./SearchPanel";
@@ -0,0 +1,63 @@
+import { EngineSettings } from "../Abstractions";
+import { HistoryAxis } from "../Layout";
+
+export type LayoutName = "layered" | "force";
+
+/** Everything that the user can change from the Options menu */
+export interface Settings extends EngineSettings {
+  Layout: LayoutName;
+  /** Whether layouts space commits evenly by generation, or by commit time */
+  HistoryAxis: HistoryAxis;
+  /** Options of saved images, which are passed to the engine's RenderImage */
+  ImageScale: number;
+  ImageTransparentBackground: boolean;
+  ImageTitle: string;
+  ImageIncludeLegend: boolean;
+  /** Saves an image of the current view */
+  SaveImageKey: string;
+}
+
+export type SettingValue = Settings[keyof Settings];
+
+interface SettingControlBase {
+  /** The setting that this control edits. Also used as the name of the form input. */
+  Key: keyof Settings;
+  Label: string;
+}
+
+export interface ToggleControl extends SettingControlBase {
+  Type: "toggle";
+}
+
+export interface SliderControl extends SettingControlBase {
+  Type: "slider";
+  Min: number;
+  Max: number;
+  Step: number;
+}
+
+export interface SelectControl extends SettingControlBase {
+  Type: "select";
+  Options: { Value: string; Label: string }[];
+}
+
+export interface ColorControl extends SettingControlBase {
+  Type: "color";
+}
+
+export interface TextControl extends SettingControlBase {
+  Type: "text";
+  Placeholder?: string;
+}
+
+/** Records the code of the next key pressed while focused, for keyboard shortcuts */
+export interface KeyControl extends SettingControlBase {
+  Type: "key";
+}
+
+export type SettingControl = ToggleControl | SliderControl | SelectControl | ColorControl | TextControl | KeyControl;
+
+/** Controls of each Options menu form, by form name */
+export interface SettingsSchema {
+  [formName: string]: SettingControl[];
+}
@@ -0,0 +1,43 @@
+import { Settings } from "./Abstractions";
+import { DEFAULT_SETTINGS, sanitizeSettings } from "./Schema";
+
+/** Remembers the user's settings across page loads, in local storage */
+export class LocalSettingsStorage {
+  public static readonly STORAGE_KEY = "git3d.settings";
+
+  /** Where settings are saved, or null for local storage */
+  private readonly storage: Storage | null;
+
+  public constructor(storage: Storage | null = null) {
+    this.storage = storage;
+  }
+
+  /** @returns The saved settings that are still valid, or no settings if nothing valid was saved */
+  public Load(): Partial<Settings> {
+    try {
+      const json = this.getStorage().getItem(LocalSettingsStorage.STORAGE_KEY);
+      return json ? sanitizeSettings(JSON.parse(json)) : {};
+    } catch {
+      return {}; // Storage is unavailable (e.g. disabled by privacy settings) or was corrupted
+    }
+  }
+
+  /** Saves the settings that differ from their defaults, so that changing a default still affects existing users */
+  public Save(settings: Settings): void {
+    const changed: Partial<Settings> = {};
+    (Object.keys(settings) as (keyof Settings)[])
+      .filter((key) => settings[key] !== DEFAULT_SETTINGS[key])
+      .forEach((key) => Object.assign(changed, { [key]: settings[key] }));
+
+    try {
+      this.getStorage().setItem(LocalSettingsStorage.STORAGE_KEY, JSON.stringify(changed));
+    } catch {
+      // Storage is unavailable or full, so settings just won't persist
+    }
+  }
+
+  /** Local storage is looked up when it's used, since even reading `window.localStorage` throws when it's disabled */
+  private getStorage(): Storage {
+    return this.storage ?? window.localStorage;
+  }
+}
@@ -0,0 +1,205 @@
+// This module is also imported by the build scripts to generate the Options menu forms,
+// so it must only contain data (no DOM or three.js access)
+
+import { DEFAULT_ENGINE_SETTINGS } from "../Abstractions";
+import { DEFAULT_IMAGE_EXPORT_OPTIONS } from "../Export/Abstractions";
+import { Settings, SettingsSchema } from "./Abstractions";
+
+export const DEFAULT_SETTINGS: Settings = {
+  ...DEFAULT_ENGINE_SETTINGS,
+  Layout: "layered",
+  HistoryAxis: "generation",
+  ImageScale: DEFAULT_IMAGE_EXPORT_OPTIONS.Scale,
+  ImageTransparentBackground: DEFAULT_IMAGE_EXPORT_OPTIONS.TransparentBackground,
+  ImageTitle: DEFAULT_IMAGE_EXPORT_OPTIONS.Title,
+  ImageIncludeLegend: DEFAULT_IMAGE_EXPORT_OPTIONS.IncludeLegend,
+  SaveImageKey: "KeyI",
+};
+
+const MOUSE_ACTION_OPTIONS = [
+  { Value: "rotate", Label: "Rotate" },
+  { Value: "zoom", Label: "Zoom" },
+  { Value: "pan", Label: "Pan" },
+  { Value: "none", Label: "Nothing" },
+];
+
+export const SETTINGS_SCHEMA: SettingsSchema = {
+  display: [
+    {
+      Type: "select",
+      Key: "CameraType",
+      Label: "Camera",
+      Options: [
+        { Value: "orthographic", Label: "Orthographic" },
+        { Value: "perspective", Label: "Perspective" },
+      ],
+    },
+    {
+      Type: "select",
+      Key: "NavigationMode",
+      Label: "Navigation",
+      Options: [
+        { Value: "orbit", Label: "Orbit" },
+        { Value: "fly", Label: "Fly" },
+      ],
+    },
+    {
+      Type: "select",
+      Key: "Layout",
+      Label: "Layout",
+      Options: [
+        { Value: "layered", Label: "Layered" },
+        { Value: "force", Label: "Force-directed" },
+      ],
+    },
+    {
+      Type: "select",
+      Key: "HistoryAxis",
+      Label: "Space commits by",
+      Options: [
+        { Value: "generation", Label: "Generation (evenly)" },
+        { Value: "time", Label: "Commit date" },
+      ],
+    },
+    { Type: "toggle", Key: "ShowTimeAxis", Label: "Time axis" },
+    { Type: "slider", Key: "NodeSize", Label: "Node size", Min: 0.25, Max: 4, Step: 0.25 },
+    { Type: "color", Key: "NodeColor", Label: "Node color" },
+    { Type: "color", Key: "EdgeColor", Label: "Edge color" },
+    {
+      Type: "select",
+      Key: "ColorMode",
+      Label: "Color nodes by",
+      Options: [
+        { Value: "uniform", Label: "Nothing (node color)" },
+        { Value: "lane", Label: "Branch" },
+        { Value: "author", Label: "Author" },
+        { Value: "age", Label: "Commit date" },
+        { Value: "change-size", Label: "Lines changed" },
+        { Value: "ref-type", Label: "Ref type" },
+      ],
+    },
+    {
+      Type: "select",
+      Key: "ColorPalette",
+      Label: "Palette",
+      Options: [
+        { Value: "okabe-ito", Label: "Okabe-Ito" },
+        { Value: "tol-bright", Label: "Tol bright" },
+        { Value: "tol-muted", Label: "Tol muted" },
+      ],
+    },
+    { Type: "color", Key: "SelectionColor", Label: "Selection color" },
+    { Type: "color", Key: "BackgroundColor", Label: "Background color" },
+    { Type: "toggle", Key: "EnableDamping", Label: "Camera inertia" },
+    { Type: "slider", Key: "DampingFactor", Label: "Camera damping", Min: 0.01, Max: 0.5, Step: 0.01 },
+    { Type: "slider", Key: "MinDistance", Label: "Min distance (perspective)", Min: 0.5, Max: 50, Step: 0.5 },
+    { Type: "slider", Key: "MaxDistance", Label: "Max distance (perspective)", Min: 10, Max: 1000, Step: 10 },
+    { Type: "slider", Key: "MinZoom", Label: "Min zoom (orthographic)", Min: 0.01, Max: 1, Step: 0.01 },
+    { Type: "slider", Key: "MaxZoom", Label: "Max zoom (orthographic)", Min: 1, Max: 1000, Step: 1 },
+    {
+      Type: "slider",
+      Key: "CameraAnimationDuration",
+      Label: "Camera animation (ms)",
+      Min: 0,
+      Max: 2000,
+      Step: 100,
+    },
+    {
+      Type: "select",
+      Key: "CameraEasing",
+      Label: "Camera easing",
+      Options: [
+        { Value: "ease-in-out", Label: "Ease in and out" },
+        { Value: "ease-out", Label: "Ease out" },
+        { Value: "ease-in", Label: "Ease in" },
+        { Value: "linear", Label: "Linear" },
+      ],
+    },
+  ],
+  input: [
+    { Type: "select", Key: "LeftMouseAction", Label: "Left mouse button", Options: MOUSE_ACTION_OPTIONS },
+    { Type: "select", Key: "MiddleMouseAction", Label: "Middle mouse button", Options: MOUSE_ACTION_OPTIONS },
+    { Type: "select", Key: "RightMouseAction", Label: "Right mouse button", Options: MOUSE_ACTION_OPTIONS },
+    {
+      Type: "select",
+      Key: "OneFingerAction",
+      Label: "One-finger drag",
+      Options: [
+        { Value: "rotate", Label: "Rotate" },
+        { Value: "pan", Label: "Pan" },
+      ],
+    },
+    {
+      Type: "select",
+      Key: "TwoFingerAction",
+      Label: "Two-finger drag",
+      Options: [
+        { Value: "zoom-pan", Label: "Zoom and pan" },
+        { Value: "zoom-rotate", Label: "Zoom and rotate" },
+      ],
+    },
+    { Type: "slider", Key: "RotateSpeed", Label: "Rotate speed", Min: 0.1, Max: 5, Step: 0.1 },
+    { Type: "slider", Key: "ZoomSpeed", Label: "Zoom speed", Min: 0.1, Max: 5, Step: 0.1 },
+    { Type: "slider", Key: "PanSpeed", Label: "Pan speed", Min: 0.1, Max: 5, Step: 0.1 },
+    { Type: "toggle", Key: "InvertRotateX", Label: "Invert horizontal rotation" },
+    { Type: "toggle", Key: "InvertRotateY", Label: "Invert vertical rotation" },
+    { Type: "toggle", Key: "InvertZoom", Label: "Invert zoom" },
+    { Type: "slider", Key: "FlySpeed", Label: "Fly speed", Min: 1, Max: 100, Step: 1 },
+    { Type: "key", Key: "PanLeftKey", Label: "Pan left" },
+    { Type: "key", Key: "PanUpKey", Label: "Pan up" },
+    { Type: "key", Key: "PanRightKey", Label: "Pan right" },
+    { Type: "key", Key: "PanDownKey", Label: "Pan down" },
+    { Type: "slider", Key: "KeyPanSpeed", Label: "Key pan speed", Min: 1, Max: 50, Step: 1 },
+    { Type: "key", Key: "MoveForwardKey", Label: "Fly forward" },
+    { Type: "key", Key: "MoveBackwardKey", Label: "Fly backward" },
+    { Type: "key", Key: "MoveLeftKey", Label: "Fly left" },
+    { Type: "key", Key: "MoveRightKey", Label: "Fly right" },
+    { Type: "key", Key: "MoveUpKey", Label: "Fly up" },
+    { Type: "key", Key: "MoveDownKey", Label: "Fly down" },
+    { Type: "key", Key: "ToggleNavigationModeKey", Label: "Switch orbit/fly" },
+    { Type: "key", Key: "SelectParentKey", Label: "Select parent commit" },
+    { Type: "key", Key: "SelectChildKey", Label: "Select child commit" },
+    { Type: "key", Key: "FocusSelectionKey", Label: "Focus selected commit" },
+    { Type: "key", Key: "FollowFirstParentKey", Label: "Fly along first parents" },
+    { Type: "key", Key: "FrameAllKey", Label: "Frame all" },
+    { Type: "key", Key: "FrameSelectionKey", Label: "Frame selected commit" },
+    { Type: "key", Key: "GoToHeadKey", Label: "Go to HEAD" },
+    { Type: "key", Key: "TogglePlaybackKey", Label: "Play/pause history" },
+    { Type: "key", Key: "SaveImageKey", Label: "Save image" },
+  ],
+  export: [
+    { Type: "slider", Key: "ImageScale", Label: "Image resolution (× screen)", Min: 1, Max: 8, Step: 1 },
+    { Type: "toggle", Key: "ImageTransparentBackground", Label: "Transparent background" },
+    { Type: "text", Key: "ImageTitle", Label: "Image title", Placeholder: "No title" },
+    { Type: "toggle", Key: "ImageIncludeLegend", Label: "Include legend" },
+  ],
+};
+
+/** @returns ID of the form input for a setting, like "display-node-size" */
+export function getSettingInputId(formName: string, key: keyof Settings): string {
+  return `${formName}-${key.replace(/[A-Z]/g, (x, index) => (index > 0 ? "-" : "") + x.toLowerCase())}`;
+}
+
+/**
+ * Keeps only the valid settings from untrusted values, like ones loaded from storage or a URL.
+ * Values must have the same type as the setting's default, select settings must have one of their options,
+ * and slider settings must be within their range.
+ */
+export function sanitizeSettings(values: { [key: string]: unknown }): Partial<Settings> {
+  const controls = Object.values(SETTINGS_SCHEMA).flat();
+  const settings: Partial<Settings> = {};
+  (Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[])
+    .filter((key) => typeof values[key] === typeof DEFAULT_SETTINGS[key])
+    .filter((key) => typeof values[key] !== "number" || isFinite(values[key] as number))
+    .filter((key) => {
+      const control = controls.find((x) => x.Key === key);
+      if (control?.Type === "select") return control.Options.some((x) => x.Value === values[key]);
+      if (control?.Type === "slider") {
+        const value = values[key] as number;
+        return value >= control.Min && value <= control.Max;
+      }
+      return true;
+    })
+    .forEach((key) => Object.assign(settings, { [key]: values[key] }));
+  return settings;
+}
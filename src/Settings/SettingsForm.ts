@@ -0,0 +1,76 @@
+import { SettingControl, Settings, SettingValue } from "./Abstractions";
+import { SETTINGS_CHANGE_EVENT, SettingsStore } from "./SettingsStore";
+
+type SettingInput = HTMLInputElement | HTMLSelectElement;
+
+/**
+ * Binds the inputs that the build generated for a form's {@link SettingControl}s to a {@link SettingsStore}, both ways:
+ * editing an input changes the setting immediately, and changing the setting any other way updates the input.
+ */
+export class SettingsForm {
+  private readonly form: HTMLFormElement;
+  private readonly controls: SettingControl[];
+  private readonly store: SettingsStore;
+
+  public constructor(form: HTMLFormElement, controls: SettingControl[], store: SettingsStore) {
+    this.form = form;
+    this.controls = controls;
+    this.store = store;
+
+    // Settings apply as they're edited, so there's nothing to submit (e.g. by pressing Enter in a text input)
+    this.form.addEventListener("submit", (e) => e.preventDefault());
+
+    this.controls.forEach((control) => {
+      const input = this.getInput(control);
+      if (!input) return;
+      this.writeInput(control, input, this.store.Values[control.Key]);
+      input.addEventListener("input", () => this.store.Set({ [control.Key]: SettingsForm.readInput(control, input) }));
+      if (control.Type === "key")
+        input.addEventListener("keydown", (e) => this.onKeyInputKeyDown(control, e as KeyboardEvent));
+    });
+
+    this.store.addEventListener(SETTINGS_CHANGE_EVENT, (e) => {
+      const changed: Partial<Settings> = e.settings;
+      this.controls
+        .filter((control) => changed[control.Key] !== undefined)
+        .forEach((control) => {
+          const input = this.getInput(control);
+          if (input) this.writeInput(control, input, changed[control.Key]!);
+        });
+    });
+  }
+
+  /** Key inputs record the pressed key instead of typing it. Backspace or Delete clear the shortcut. */
+  private onKeyInputKeyDown(control: SettingControl, event: KeyboardEvent) {
+    if (event.code === "Tab") return; // Keep keyboard navigation between inputs working
+
+    event.preventDefault();
+    event.stopPropagation(); // So that the shortcut being assigned doesn't also run
+    const code = event.code === "Backspace" || event.code === "Delete" ? "" : event.code;
+    this.store.Set({ [control.Key]: code });
+  }
+
+  private getInput(control: SettingControl): SettingInput | null {
+    return this.form.elements.namedItem(control.Key) as SettingInput | null;
+  }
+
+  private writeInput(control: SettingControl, input: SettingInput, value: SettingValue) {
+    if (control.Type === "toggle") (input as HTMLInputElement).checked = value as boolean;
+    else input.value = String(value);
+
+    // Sliders show their value next to their label
+    const output = this.form.querySelector(`output[for="${input.id}"]`);
+    if (output) output.textContent = String(value);
+  }
+
+  private static readInput(control: SettingControl, input: SettingInput): SettingValue {
+    switch (control.Type) {
+      case "toggle":
+        return (input as HTMLInputElement).checked;
+      case "slider":
+        return Number(input.value);
+      default:
+        return input.value as SettingValue;
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { EventDispatcher } from "three";
+import { Settings } from "./Abstractions";
+import { DEFAULT_SETTINGS } from "./Schema";
+
+/** Type of the event dispatched when settings change. The event's `settings` holds just the changed settings. */
+export const SETTINGS_CHANGE_EVENT = "change";
+
+/** The current value of every setting. Forms and the engine both read and write settings through this store. */
+export class SettingsStore extends EventDispatcher {
+  private readonly values: Settings;
+
+  public constructor(values: Partial<Settings> = {}) {
+    super();
+
+    this.values = { ...DEFAULT_SETTINGS, ...values };
+  }
+
+  public get Values(): Readonly<Settings> {
+    return this.values;
+  }
+
+  /** Changes some settings. Dispatches a {@link SETTINGS_CHANGE_EVENT} event if any of them actually changed. */
+  public Set(settings: Partial<Settings>): void {
+    const changedKeys = (Object.keys(settings) as (keyof Settings)[]).filter(
+      (key) => settings[key] !== undefined && settings[key] !== this.values[key]
+    );
+    if (changedKeys.length === 0) return;
+
+    const changed: Partial<Settings> = {};
+    changedKeys.forEach((key) => Object.assign(changed, { [key]: settings[key] }));
+    Object.assign(this.values, changed);
+
+    this.dispatchEvent({ type: SETTINGS_CHANGE_EVENT, settings: changed });
+  }
+}
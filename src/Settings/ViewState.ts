@@ -0,0 +1,84 @@
+import { Vector3 } from "three";
+import { CameraState } from "../Abstractions";
+import { CommitFilter, DEFAULT_COMMIT_FILTER } from "../Search/Abstractions";
+import { sanitizeCommitFilter } from "../Search/CommitFilter";
+import { Settings } from "./Abstractions";
+import { DEFAULT_SETTINGS, sanitizeSettings, SETTINGS_SCHEMA } from "./Schema";
+
+/** Everything needed to show someone else exactly the same view */
+export interface ViewState {
+  Camera: CameraState | null;
+  /** ID of the selected commit */
+  SelectedId: string | null;
+  Settings: Partial<Settings>;
+  /** Search and filter of the commits, which are kept apart from the settings since they aren't saved */
+  Filter: Partial<CommitFilter>;
+}
+
+const CAMERA_PARAM = "camera";
+const SELECTED_PARAM = "commit";
+/** Only display settings are part of a view. Input settings like key bindings are personal. */
+const VIEW_SETTING_KEYS = SETTINGS_SCHEMA.display.map((x) => x.Key);
+const FILTER_KEYS = Object.keys(DEFAULT_COMMIT_FILTER) as (keyof CommitFilter)[];
+/** Decimal places kept for camera coordinates, which is plenty for views to match while keeping URLs short */
+const CAMERA_PRECISION = 3;
+
+/**
+ * Serializes a view state into a URL hash, like "#camera=0,0,5,0,0,0,1&commit=abc123&NodeSize=2&Query=fix".
+ * Only display settings and filter fields that differ from their defaults are included.
+ */
+export function viewStateToHash(state: ViewState): string {
+  const params = new URLSearchParams();
+  if (state.Camera) {
+    const { Position: p, Target: t, Zoom: zoom } = state.Camera;
+    const numbers = [p.x, p.y, p.z, t.x, t.y, t.z, zoom].map((x) => Number(x.toFixed(CAMERA_PRECISION)));
+    params.set(CAMERA_PARAM, numbers.join(","));
+  }
+  if (state.SelectedId) params.set(SELECTED_PARAM, state.SelectedId);
+  VIEW_SETTING_KEYS.filter((key) => state.Settings[key] !== undefined && state.Settings[key] !== DEFAULT_SETTINGS[key])
+    .forEach((key) => params.set(key, String(state.Settings[key])));
+  FILTER_KEYS.filter((key) => state.Filter[key] !== undefined && state.Filter[key] !== DEFAULT_COMMIT_FILTER[key])
+    .forEach((key) => params.set(key, String(state.Filter[key])));
+
+  const query = params.toString().replace(/%2C/g, ","); // Commas are safe in hashes, and much easier to read
+  return query ? `#${query}` : "";
+}
+
+/** Parses a URL hash from {@link viewStateToHash}, ignoring anything invalid */
+export function viewStateFromHash(hash: string): ViewState {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+
+  let camera: CameraState | null = null;
+  const numbers = (params.get(CAMERA_PARAM) ?? "").split(",").map(Number);
+  if (numbers.length === 7 && numbers.every((x) => isFinite(x)) && numbers[6] > 0) {
+    camera = {
+      Position: new Vector3(numbers[0], numbers[1], numbers[2]),
+      Target: new Vector3(numbers[3], numbers[4], numbers[5]),
+      Zoom: numbers[6],
+    };
+  }
+
+  return {
+    Camera: camera,
+    SelectedId: params.get(SELECTED_PARAM),
+    Settings: sanitizeSettings(getParamValues(params, VIEW_SETTING_KEYS, DEFAULT_SETTINGS)),
+    Filter: sanitizeCommitFilter(getParamValues(params, FILTER_KEYS, DEFAULT_COMMIT_FILTER)),
+  };
+}
+
+/** Values are strings in URLs, so this converts them back to the type of each value's default first */
+function getParamValues<T>(
+  params: URLSearchParams,
+  keys: (keyof T & string)[],
+  defaults: T
+): { [key: string]: unknown } {
+  const values: { [key: string]: unknown } = {};
+  keys.forEach((key) => {
+    const value = params.get(key);
+    if (value === null) return;
+    const defaultValue = defaults[key];
+    values[key] =
+      typeof defaultValue === "boolean" ? value === "true" : typeof defaultValue === "number" ? Number(value) : value;
+  });
+  return values;
+}
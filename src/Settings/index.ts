@@ -0,0 +1,5 @@
+export * from "./LocalSettingsStorage";
+export * from "./Schema";
+export * from "./SettingsForm";
+export * from "./SettingsStore";
+export * from "./ViewState";
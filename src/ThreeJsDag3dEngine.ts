@@ -1,107 +1,985 @@
 import {
-  BufferGeometry,
-  CircleGeometry,
-  Line,
+  Box3,
+  Color,
+  MathUtils,
+  EventDispatcher,
   LineBasicMaterial,
-  Mesh,
-  MeshBasicMaterial,
   OrthographicCamera,
   PerspectiveCamera,
   Scene,
+  Sphere,
+  SphereGeometry,
+  Vector2,
+  Vector3,
+  WebGLMultisampleRenderTarget,
   WebGLRenderer,
+  WebGLRenderTarget,
 } from "three";
-import { IDag3dEngine } from "./Abstractions";
+import {
+  CAMERA_EVENT,
+  CameraEasing,
+  CameraState,
+  CameraType,
+  DEFAULT_ENGINE_SETTINGS,
+  EngineSettings,
+  IDag3dEngine,
+  LEGEND_EVENT,
+  PLAYBACK_EVENT,
+  SELECT_EVENT,
+  SETTINGS_EVENT,
+} from "./Abstractions";
+import { colorNodes } from "./Coloring";
+import { Legend } from "./Coloring/Abstractions";
+import { drawLegend, drawTitle, exportSceneAsync } from "./Export";
+import { DEFAULT_IMAGE_EXPORT_OPTIONS, ImageExportOptions, SceneExportFormat } from "./Export/Abstractions";
+import { FlyControls } from "./FlyControls";
+import { DomInputProvider } from "./Input";
+import { InstancedGraph } from "./InstancedGraph";
+import { ILayoutEngine, isIncrementalLayoutEngine } from "./Layout/Abstractions";
+import { LayeredLayoutEngine } from "./Layout";
+import { NodePicker } from "./NodePicker";
 import { OrbitControls } from "./OrbitControls";
+import { HistoryPlayback } from "./Playback";
+import { IHistoryPlayback } from "./Playback/Abstractions";
+import { Node, Ref, RefType } from "./Rendering/Abstractions";
+import { TimeAxis } from "./TimeAxis";
+
+/**
+ * Thrown when the browser can't create a WebGL context, e.g. because WebGL is disabled or the GPU is blocklisted
+ */
+export class WebGLUnavailableError extends Error {
+  /** The error from creating the context */
+  public readonly Cause: unknown;
 
-export class ThreeJsDag3dEngine implements IDag3dEngine {
+  constructor(cause: unknown) {
+    super(`WebGL is not available: ${cause instanceof Error ? cause.message : cause}`);
+    this.name = "WebGLUnavailableError";
+    this.Cause = cause;
+  }
+}
+
+export class ThreeJsDag3dEngine extends EventDispatcher implements IDag3dEngine {
   private readonly canvas: HTMLCanvasElement;
   private readonly renderer: WebGLRenderer;
   private readonly scene = new Scene();
   private readonly perspectiveCamera: PerspectiveCamera;
   private readonly orthographicCamera: OrthographicCamera;
 
+  private inputProvider: DomInputProvider | null = null;
+  /** Orbit controls own the camera target, which fly mode keeps in front of the camera */
   private controls: OrbitControls | null = null;
+  private flyControls: FlyControls | null = null;
+  private lastUpdateTime = performance.now();
+
+  private static readonly PERSPECTIVE_FOV = 75;
+  /** Height of the world-space area that the orthographic camera shows, at zoom 1 */
+  private static readonly FRUSTUM_HEIGHT = 10;
+  private static readonly CAMERA_FAR = 1000;
+  /** Perspective field of view (degrees) close enough to orthographic to switch projections without a visible jump */
+  private static readonly NEAR_ORTHOGRAPHIC_FOV = 1;
+  private static readonly CAMERA_TRANSITION_DURATION_MS = 500;
+  /** Longest time that one frame can fly the camera for, so that it doesn't shoot off after the page was hidden */
+  private static readonly MAX_FRAME_MS = 100;
+
+  /**
+   * The projection change in progress, if any. Transitions are "dolly zooms": the perspective camera's field of view
+   * narrows (or widens) while it backs away from (or toward) the target,
+   * so that the target's surroundings stay the same size.
+   */
+  private cameraTransition: {
+    ToType: CameraType;
+    StartTime: number;
+    /** Height of the visible area around the target, which stays constant throughout the transition */
+    VisibleHeight: number;
+    /** Unit vector from the target toward the camera */
+    Direction: Vector3;
+    /** Distance from the target that the orthographic camera ends at (or started at) */
+    OrthographicDistance: number;
+  } | null = null;
+
+  /** Camera move in progress that was started by a camera command, like {@link FocusNode}. User input cancels it. */
+  private cameraAnimation: {
+    StartTime: number;
+    From: CameraState;
+    To: CameraState;
+  } | null = null;
+
+  private static readonly EASING_FUNCTIONS: { [easing in CameraEasing]: (t: number) => number } = {
+    linear: (t) => t,
+    "ease-in": (t) => t * t * t,
+    "ease-out": (t) => 1 - Math.pow(1 - t, 3),
+    "ease-in-out": (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(2 - 2 * t, 3) / 2),
+  };
+  /** How much room to leave around framed nodes, relative to their size */
+  private static readonly FRAME_MARGIN = 1.2;
+  /** Smallest radius to frame, so that framing a single node shows some of its surroundings too */
+  private static readonly FRAME_MIN_RADIUS = 3;
+  private static readonly REF_TYPE_ORDER: RefType[] = ["head", "branch", "remote", "tag"];
+
+  private static readonly NODE_RADIUS = 0.5;
+  private static readonly HOVERED_SCALE = 1.5;
+  private static readonly SELECTED_SCALE = 2;
+  private static readonly HIGHLIGHTED_SCALE = 1.25;
+  /** How far nodes that aren't highlighted are faded toward the background color, from 0 (not at all) to 1 */
+  private static readonly DIMMED_COLOR_AMOUNT = 0.8;
+  /** How far time axis gridlines are faded from the edge color toward the background color */
+  private static readonly GRIDLINE_FADE = 0.6;
+  /** Pointers that move farther than this many pixels between press and release are dragging, not clicking */
+  private static readonly CLICK_MAX_DISTANCE = 4;
+
+  private layoutEngine: ILayoutEngine = new LayeredLayoutEngine();
+
+  // Node geometry and materials are shared by every graph, so they are never disposed
+  private readonly nodeGeometry = new SphereGeometry(ThreeJsDag3dEngine.NODE_RADIUS, 16, 8);
+  private readonly edgeMaterial = new LineBasicMaterial();
+  private readonly nodeColor = new Color();
+  private readonly selectionColor = new Color();
+  private readonly backgroundColor = new Color();
+  private readonly tempColor = new Color();
+  /** Color of every node in the current color mode, or null if every node has the node color */
+  private nodeColors: Map<Node, Color> | null = null;
+  private legend: Legend | null = null;
+
+  /** Draws all nodes and edges of the current graph */
+  private readonly graph = new InstancedGraph(this.nodeGeometry, this.nodeColor, this.edgeMaterial);
+  private leafNodes: Node[] = [];
+  private nodePositions = new Map<Node, Vector3>();
 
-  private static readonly NUM_NODES = 5;
+  private readonly picker = new NodePicker();
+  private readonly tooltip: HTMLElement;
+  /** Latest pointer position over the canvas, in normalized device coordinates, or null if the pointer is elsewhere */
+  private pointer: Vector2 | null = null;
+  private pointerMoved = false;
+  private readonly pointerDownPosition = new Vector2();
+  private hoveredNode: Node | null = null;
+  private selectedNode: Node | null = null;
+  /** Nodes to highlight, dimming the rest, or null to draw every node normally */
+  private highlightedNodes: Set<Node> | null = null;
+  private hiddenNodes = new Set<Node>();
+  private readonly playback = new HistoryPlayback();
+  private playbackWasPlaying = false;
+  private readonly timeAxis: TimeAxis;
+  /** Whether the time axis needs updating even if the camera didn't move */
+  private timeAxisChanged = false;
+  /** Whether an incremental layout moved nodes on the last frame, so the time axis needs resampling once it stops */
+  private layoutMoving = false;
+
+  private readonly settings: EngineSettings;
+
+  public constructor(canvas: HTMLCanvasElement, settings: Partial<EngineSettings> = {}) {
+    super();
 
-  public constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
+    try {
+      this.renderer = new WebGLRenderer({
+        canvas: this.canvas,
+        antialias: true,
+      });
+    } catch (error) {
+      throw new WebGLUnavailableError(error);
+    }
 
-    this.renderer = new WebGLRenderer({
-      canvas: this.canvas,
-      antialias: true,
-    });
+    this.tooltip = document.createElement("div");
+    this.tooltip.className = "g3d-tooltip";
+    this.tooltip.hidden = true;
+    this.canvas.parentElement?.appendChild(this.tooltip);
+
+    const timeAxisLabels = document.createElement("div");
+    timeAxisLabels.className = "g3d-time-axis-labels";
+    this.canvas.insertAdjacentElement("afterend", timeAxisLabels); // Under overlays that come after the canvas
+    this.timeAxis = new TimeAxis(timeAxisLabels);
 
     const aspect = this.canvas.width / this.canvas.height;
-    this.perspectiveCamera = new PerspectiveCamera(75, aspect, 0.1, 1000);
+    this.perspectiveCamera = new PerspectiveCamera(
+      ThreeJsDag3dEngine.PERSPECTIVE_FOV,
+      aspect,
+      0.1,
+      ThreeJsDag3dEngine.CAMERA_FAR
+    );
 
-    const frustumHeight = 10;
-    const halfWidth = (frustumHeight * aspect) / 2;
-    const halfHeight = frustumHeight / 2;
+    const halfWidth = (ThreeJsDag3dEngine.FRUSTUM_HEIGHT * aspect) / 2;
+    const halfHeight = ThreeJsDag3dEngine.FRUSTUM_HEIGHT / 2;
     this.orthographicCamera = new OrthographicCamera(
       -halfWidth,
       halfWidth,
       halfHeight,
       -halfHeight,
       1,
-      1000
+      ThreeJsDag3dEngine.CAMERA_FAR
     );
-  }
 
-  private static readonly USE_PERSPECTIVE = false;
+    this.settings = { ...DEFAULT_ENGINE_SETTINGS, ...settings };
+    this.applyAppearanceSettings(this.settings);
+  }
 
   public InitializeAsync(): Promise<void> {
-    // Add circles to scene
-    const circleGeo = new CircleGeometry(1, 16);
-    const circleMat = new MeshBasicMaterial({ color: 0x00ff00 });
-    const circles: Mesh[] = new Array<Mesh>(ThreeJsDag3dEngine.NUM_NODES);
-    for (let x = 0; x < ThreeJsDag3dEngine.NUM_NODES; ++x) {
-      const circle = new Mesh(circleGeo, circleMat);
-      circle.name = `circle-${x}`;
-      circle.position.x = 2 * x;
-      circle.position.y = Math.random();
-      circles[x] = circle;
-      this.scene.add(circle);
-    }
-
-    // Add connecting line to scene
-    const lineMat = new LineBasicMaterial({ color: 0xff0000 });
-    const lineGeo = new BufferGeometry().setFromPoints(
-      circles.map((x) => x.position)
-    );
-    const line = new Line(lineGeo, lineMat);
-    this.scene.add(line);
+    this.graph.name = "graph";
+    this.scene.add(this.graph);
+    this.timeAxis.name = "time-axis";
+    this.scene.add(this.timeAxis);
 
     // Position camera
     this.perspectiveCamera.position.z = 5;
     this.orthographicCamera.position.z = 5;
 
     // Set up controls
-    const camera = ThreeJsDag3dEngine.USE_PERSPECTIVE
-      ? this.perspectiveCamera
-      : this.orthographicCamera;
-    this.controls = new OrbitControls(camera, this.canvas);
-    this.controls.listenToKeyEvents(window); // optional
-    this.controls.enableDamping = true; // an animation loop is required when either damping or auto-rotation are enabled
-    this.controls.dampingFactor = 0.05;
-
+    this.inputProvider = new DomInputProvider(this.canvas);
+    this.inputProvider.ListenToKeyEvents(window); // optional
+    this.controls = new OrbitControls(this.camera, this.inputProvider);
     this.controls.screenSpacePanning = false;
+    this.controls.maxPolarAngle = Math.PI / 2;
+    this.controls.addEventListener("start", () => (this.cameraAnimation = null));
 
-    this.controls.minDistance = 1;
-    this.controls.maxDistance = 100;
+    // Keep fly mode within the orbit limits, so that switching back to orbiting doesn't snap the camera
+    this.flyControls = new FlyControls(this.inputProvider);
+    this.flyControls.MinPitch = this.controls.minPolarAngle - Math.PI / 2;
+    this.flyControls.MaxPitch = this.controls.maxPolarAngle - Math.PI / 2;
+    this.applyControlsSettings();
 
-    this.controls.maxPolarAngle = Math.PI / 2;
+    // Set up picking. Listeners are passive, so that OrbitControls still receives every gesture.
+    this.canvas.addEventListener("pointermove", (e) => {
+      const rect = this.canvas.getBoundingClientRect();
+      this.pointer = new Vector2(
+        ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        -((e.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      this.pointerMoved = true;
+      this.tooltip.style.left = `${e.clientX - rect.left}px`;
+      this.tooltip.style.top = `${e.clientY - rect.top}px`;
+    });
+    this.canvas.addEventListener("pointerleave", () => {
+      this.pointer = null;
+      this.pointerMoved = true;
+    });
+    this.canvas.addEventListener("pointerdown", (e) => this.pointerDownPosition.set(e.clientX, e.clientY));
+    this.canvas.addEventListener("pointerup", (e) => {
+      const dragDistance = this.pointerDownPosition.distanceTo(new Vector2(e.clientX, e.clientY));
+      if (e.button !== 0 || dragDistance > ThreeJsDag3dEngine.CLICK_MAX_DISTANCE) return;
+      this.onNodeClicked(this.hoveredNode, e.altKey);
+    });
+
+    window.addEventListener("keydown", (e) => this.onKeyDown(e));
 
     return Promise.resolve();
   }
 
+  /** Handles the commit navigation shortcuts. Camera shortcuts are handled by the controls. */
+  private onKeyDown(event: KeyboardEvent) {
+    // Don't steal keys from the Options menu's inputs, or browser shortcuts (like Ctrl+F)
+    const target = event.target as HTMLElement | null;
+    if (event.code === "" || (target && ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName))) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    switch (event.code) {
+      case this.settings.ToggleNavigationModeKey:
+        event.preventDefault();
+        this.ApplySettings({ NavigationMode: this.settings.NavigationMode === "orbit" ? "fly" : "orbit" });
+        return;
+      case this.settings.FollowFirstParentKey:
+        event.preventDefault();
+        this.FollowFirstParent();
+        return;
+      case this.settings.FrameAllKey:
+        event.preventDefault();
+        this.FrameAll();
+        return;
+      case this.settings.TogglePlaybackKey:
+        event.preventDefault();
+        if (this.playback.Playing) this.playback.Pause();
+        else this.playback.Play();
+        return;
+      case this.settings.GoToHeadKey: {
+        event.preventDefault();
+        const head = this.GetRefNode("HEAD");
+        if (head) {
+          this.SelectNode(head);
+          this.FocusNode(head);
+        }
+        return;
+      }
+    }
+
+    const selected = this.selectedNode;
+    if (!selected) return;
+
+    let node: Node | null = null;
+    switch (event.code) {
+      case this.settings.SelectParentKey:
+        node = selected.FirstParent;
+        break;
+      case this.settings.SelectChildKey:
+        node = selected.Children.find((x) => x.FirstParent === selected) ?? selected.Children[0] ?? null;
+        break;
+      case this.settings.FocusSelectionKey:
+        node = selected;
+        break;
+      case this.settings.FrameSelectionKey:
+        event.preventDefault();
+        this.FrameNodes([selected]);
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    if (!node) return;
+    this.SelectNode(node);
+    this.FocusNode(node);
+  }
+
+  public get SelectedNode(): Node | null {
+    return this.selectedNode;
+  }
+
+  public SelectNode(node: Node | null): void {
+    if (node === this.selectedNode) return;
+
+    const oldSelection = this.selectedNode;
+    this.selectedNode = node;
+    if (oldSelection) this.refreshNodeAppearance(oldSelection);
+    if (node) this.refreshNodeAppearance(node);
+
+    this.dispatchEvent({ type: SELECT_EVENT, node });
+  }
+
+  /** Alt+click pins or unpins a node in incremental layouts; other clicks select it (or deselect on empty space) */
+  private onNodeClicked(node: Node | null, altKey: boolean) {
+    if (altKey && node && isIncrementalLayoutEngine(this.layoutEngine)) {
+      if (this.layoutEngine.IsPinned(node)) this.layoutEngine.Unpin(node);
+      else this.layoutEngine.Pin(node);
+      return;
+    }
+
+    this.SelectNode(node);
+  }
+
+  private updateHoveredNode() {
+    const node = this.pointer
+      ? this.picker.Pick(
+          this.pointer,
+          this.camera,
+          this.nodePositions,
+          ThreeJsDag3dEngine.NODE_RADIUS * this.settings.NodeSize,
+          (x) => this.hiddenNodes.has(x) || !this.playback.IsRevealed(x)
+        )
+      : null;
+    if (node === this.hoveredNode) return;
+
+    const oldHover = this.hoveredNode;
+    this.hoveredNode = node;
+    if (oldHover) this.refreshNodeAppearance(oldHover);
+    if (node) this.refreshNodeAppearance(node);
+
+    this.tooltip.hidden = !node;
+    if (node) this.tooltip.textContent = `${node.Id.substring(0, 7)} ${node.Commit?.Subject ?? node.Label}`;
+    this.canvas.style.cursor = node ? "pointer" : "";
+  }
+
+  /** Applies the color and scale that a node should have, given whether it is hovered or selected */
+  private refreshNodeAppearance(node: Node) {
+    const selected = node === this.selectedNode;
+    const highlighted = this.highlightedNodes?.has(node) ?? false;
+    const dimmed = this.highlightedNodes !== null && !highlighted;
+    const scale = selected
+      ? ThreeJsDag3dEngine.SELECTED_SCALE
+      : node === this.hoveredNode
+      ? ThreeJsDag3dEngine.HOVERED_SCALE
+      : highlighted
+      ? ThreeJsDag3dEngine.HIGHLIGHTED_SCALE
+      : 1;
+    this.graph.SetNodeScale(node, scale);
+    const baseColor = this.nodeColors?.get(node) ?? this.nodeColor;
+    const color = selected
+      ? this.selectionColor
+      : dimmed
+      ? this.tempColor.copy(baseColor).lerp(this.backgroundColor, ThreeJsDag3dEngine.DIMMED_COLOR_AMOUNT)
+      : baseColor;
+    this.graph.SetNodeColor(node, color);
+  }
+
+  /** The camera currently rendering the scene, which is the perspective camera during projection transitions */
+  private get camera(): PerspectiveCamera | OrthographicCamera {
+    if (this.controls) return this.controls.camera;
+    return this.settings.CameraType === "perspective" ? this.perspectiveCamera : this.orthographicCamera;
+  }
+
+  public get Settings(): Readonly<EngineSettings> {
+    return this.settings;
+  }
+
+  public ApplySettings(settings: Partial<EngineSettings>): void {
+    const changedKeys = (Object.keys(settings) as (keyof EngineSettings)[]).filter(
+      (key) => settings[key] !== undefined && settings[key] !== this.settings[key]
+    );
+    if (changedKeys.length === 0) return;
+
+    const changed: Partial<EngineSettings> = {};
+    changedKeys.forEach((key) => Object.assign(changed, { [key]: settings[key] }));
+    Object.assign(this.settings, changed);
+
+    if (changed.CameraType) this.transitionCameraType(changed.CameraType);
+    this.applyAppearanceSettings(changed);
+    this.applyControlsSettings();
+
+    this.dispatchEvent({ type: SETTINGS_EVENT, settings: changed });
+  }
+
+  /**
+   * Applies the given settings that affect how the graph looks.
+   * Only pass settings that changed, since recoloring every node is slow for large graphs.
+   */
+  private applyAppearanceSettings(settings: Partial<EngineSettings>) {
+    if (settings.EdgeColor !== undefined) this.edgeMaterial.color.set(settings.EdgeColor);
+    if (settings.BackgroundColor !== undefined) {
+      this.renderer.setClearColor(settings.BackgroundColor);
+      this.backgroundColor.set(settings.BackgroundColor);
+    }
+    if (settings.NodeSize !== undefined) this.graph.SetBaseNodeScale(settings.NodeSize);
+    if (settings.NodeColor !== undefined) {
+      this.nodeColor.set(settings.NodeColor);
+      this.graph.SetDefaultNodeColor(this.nodeColor);
+    }
+    if (settings.ColorMode !== undefined || settings.ColorPalette !== undefined) this.updateNodeColors();
+    else if (settings.NodeColor !== undefined || settings.BackgroundColor !== undefined) {
+      // Setting the node color recolored every node, and dimmed colors fade toward the background
+      if (this.nodeColors || this.highlightedNodes) this.graph.Nodes.forEach((x) => this.refreshNodeAppearance(x));
+    }
+    if (settings.EdgeColor !== undefined || settings.BackgroundColor !== undefined) {
+      const gridColor = new Color(this.settings.EdgeColor).lerp(this.backgroundColor, ThreeJsDag3dEngine.GRIDLINE_FADE);
+      this.timeAxis.SetColor(gridColor);
+    }
+    if (settings.ShowTimeAxis !== undefined) {
+      this.timeAxis.SetVisible(settings.ShowTimeAxis);
+      this.timeAxisChanged = true;
+    }
+    if (settings.SelectionColor !== undefined || settings.NodeColor !== undefined) {
+      this.selectionColor.set(this.settings.SelectionColor);
+      if (this.selectedNode) this.refreshNodeAppearance(this.selectedNode);
+    }
+  }
+
+  /** Recolors every node for the current color mode, and dispatches a {@link LEGEND_EVENT} event */
+  private updateNodeColors() {
+    const nodes = this.graph.Nodes;
+    const coloring = nodes.length > 0 ? colorNodes(nodes, this.settings.ColorMode, this.settings.ColorPalette) : null;
+
+    this.nodeColors = null;
+    if (coloring) {
+      // Color modes only use a few colors, so nodes share Color objects
+      const nodeColors = new Map<Node, Color>();
+      const colors = new Map<string, Color>();
+      coloring.Colors.forEach((hex, node) => {
+        if (!colors.has(hex)) colors.set(hex, new Color(hex));
+        nodeColors.set(node, colors.get(hex)!);
+      });
+      this.nodeColors = nodeColors;
+    }
+    nodes.forEach((x) => this.refreshNodeAppearance(x));
+
+    this.legend = coloring?.Legend ?? null;
+    this.dispatchEvent({ type: LEGEND_EVENT, legend: this.legend });
+  }
+
+  private applyControlsSettings() {
+    if (!this.controls || !this.flyControls || !this.inputProvider) return;
+
+    // An animation loop is required when damping is enabled
+    this.controls.enableDamping = this.settings.EnableDamping;
+    this.controls.dampingFactor = this.settings.DampingFactor;
+    this.controls.minDistance = this.settings.MinDistance;
+    this.controls.maxDistance = this.settings.MaxDistance;
+    this.controls.minZoom = this.settings.MinZoom;
+    this.controls.maxZoom = this.settings.MaxZoom;
+
+    this.controls.rotateSpeed = this.settings.RotateSpeed;
+    this.controls.zoomSpeed = this.settings.ZoomSpeed;
+    this.controls.panSpeed = this.settings.PanSpeed;
+    this.controls.invertRotateX = this.settings.InvertRotateX;
+    this.controls.invertRotateY = this.settings.InvertRotateY;
+    this.controls.invertZoom = this.settings.InvertZoom;
+    this.flyControls.Speed = this.settings.FlySpeed;
+    this.flyControls.LookSpeed = this.settings.RotateSpeed;
+    this.flyControls.InvertLookX = this.settings.InvertRotateX;
+    this.flyControls.InvertLookY = this.settings.InvertRotateY;
+    this.updateControlsEnabled();
+
+    this.inputProvider.MouseButtons = {
+      Left: this.settings.LeftMouseAction,
+      Middle: this.settings.MiddleMouseAction,
+      Right: this.settings.RightMouseAction,
+    };
+    this.inputProvider.Touches = { One: this.settings.OneFingerAction, Two: this.settings.TwoFingerAction };
+    this.inputProvider.Keys = {
+      Left: this.settings.PanLeftKey,
+      Up: this.settings.PanUpKey,
+      Right: this.settings.PanRightKey,
+      Down: this.settings.PanDownKey,
+    };
+    this.inputProvider.KeyPanSpeed = this.settings.KeyPanSpeed;
+    this.inputProvider.MoveKeys = {
+      Forward: this.settings.MoveForwardKey,
+      Backward: this.settings.MoveBackwardKey,
+      Left: this.settings.MoveLeftKey,
+      Right: this.settings.MoveRightKey,
+      Up: this.settings.MoveUpKey,
+      Down: this.settings.MoveDownKey,
+    };
+  }
+
+  /** Only the controls for the current navigation mode respond to input, and neither do while the projection changes */
+  private updateControlsEnabled() {
+    if (!this.controls || !this.flyControls) return;
+
+    const idle = this.cameraTransition === null;
+    this.controls.enabled = idle && this.settings.NavigationMode === "orbit";
+    this.flyControls.Enabled = idle && this.settings.NavigationMode === "fly";
+    if (this.settings.NavigationMode !== "fly") this.flyControls.StopFollowing();
+    // Leave the move keys to pan keys and shortcuts that share them, except while flying
+    if (this.inputProvider) this.inputProvider.MoveKeysEnabled = this.settings.NavigationMode === "fly";
+  }
+
+  /**
+   * Flies the camera, and moves the orbit target along with it
+   * @returns Whether the camera changed
+   */
+  private updateFlyControls(elapsedMilliseconds: number): boolean {
+    const controls = this.controls!;
+    const distance = this.camera.position.distanceTo(controls.target);
+    if (!this.flyControls!.Update(this.camera, elapsedMilliseconds)) return false;
+
+    // Keep the target right in front of the camera, so that orbiting picks up where flying left off
+    const forward = new Vector3(0, 0, -1).applyQuaternion(this.camera.quaternion);
+    controls.target.copy(this.camera.position).addScaledVector(forward, distance);
+    return true;
+  }
+
+  /** Changes the camera's projection, animating between them so that the view stays framed the same */
+  private transitionCameraType(cameraType: CameraType) {
+    if (!this.controls) return;
+
+    // Start from wherever an interrupted transition got to, and from where an animation was going
+    if (this.cameraTransition) this.finishCameraTransition();
+    if (this.cameraAnimation) this.updateCameraAnimation(1);
+
+    const target = this.controls.target;
+    const direction = new Vector3().subVectors(this.controls.camera.position, target);
+    const distance = direction.length();
+    direction.normalize();
+
+    if (cameraType === "orthographic") {
+      this.cameraTransition = {
+        ToType: cameraType,
+        StartTime: performance.now(),
+        VisibleHeight: ThreeJsDag3dEngine.visibleHeight(distance, ThreeJsDag3dEngine.PERSPECTIVE_FOV),
+        Direction: direction,
+        OrthographicDistance: distance,
+      };
+    } else {
+      // Swap in a nearly-orthographic perspective camera that shows the same area as the orthographic camera
+      this.cameraTransition = {
+        ToType: cameraType,
+        StartTime: performance.now(),
+        VisibleHeight: ThreeJsDag3dEngine.FRUSTUM_HEIGHT / this.orthographicCamera.zoom,
+        Direction: direction,
+        OrthographicDistance: distance,
+      };
+      this.updateCameraTransition(0);
+      this.controls.setCamera(this.perspectiveCamera);
+    }
+    this.updateControlsEnabled();
+  }
+
+  /** @param progress How far the transition has gotten, from 0 (start) to 1 (end) */
+  private updateCameraTransition(progress: number) {
+    const transition = this.cameraTransition!;
+    const eased = MathUtils.smoothstep(progress, 0, 1);
+    const fov =
+      transition.ToType === "orthographic"
+        ? MathUtils.lerp(ThreeJsDag3dEngine.PERSPECTIVE_FOV, ThreeJsDag3dEngine.NEAR_ORTHOGRAPHIC_FOV, eased)
+        : MathUtils.lerp(ThreeJsDag3dEngine.NEAR_ORTHOGRAPHIC_FOV, ThreeJsDag3dEngine.PERSPECTIVE_FOV, eased);
+
+    // Narrow fields of view put the camera very far away, so push the far plane out to match
+    const distance = transition.VisibleHeight / (2 * Math.tan(MathUtils.degToRad(fov) / 2));
+    this.perspectiveCamera.position.copy(this.controls!.target).addScaledVector(transition.Direction, distance);
+    this.perspectiveCamera.fov = fov;
+    this.perspectiveCamera.far = distance + ThreeJsDag3dEngine.CAMERA_FAR;
+    this.perspectiveCamera.updateProjectionMatrix();
+  }
+
+  private finishCameraTransition() {
+    const transition = this.cameraTransition!;
+    const controls = this.controls!;
+    this.updateCameraTransition(1);
+    this.perspectiveCamera.far = ThreeJsDag3dEngine.CAMERA_FAR;
+    this.perspectiveCamera.updateProjectionMatrix();
+
+    if (transition.ToType === "orthographic") {
+      this.orthographicCamera.position
+        .copy(controls.target)
+        .addScaledVector(transition.Direction, transition.OrthographicDistance);
+      this.orthographicCamera.zoom = ThreeJsDag3dEngine.FRUSTUM_HEIGHT / transition.VisibleHeight;
+      this.orthographicCamera.updateProjectionMatrix();
+      controls.setCamera(this.orthographicCamera);
+    }
+
+    this.cameraTransition = null;
+    this.updateControlsEnabled();
+  }
+
+  /** @returns Height of the area that a perspective camera shows at some distance in front of it */
+  private static visibleHeight(distance: number, fov: number): number {
+    return 2 * distance * Math.tan(MathUtils.degToRad(fov) / 2);
+  }
+
+  public LoadGraph(leafNodes: Node[]): void {
+    this.SetNodeFilter(null, []); // The filter's nodes are from the old graph
+    this.leafNodes = leafNodes;
+    this.nodePositions = this.layoutEngine.ComputeLayout(leafNodes);
+    this.graph.SetGraph(this.nodePositions);
+    this.updateNodeColors();
+    this.playback.SetNodes(leafNodes);
+    this.dispatchEvent({ type: PLAYBACK_EVENT });
+    this.updateTimeAxisGraph();
+    this.hoveredNode = null;
+    this.pointerMoved = true;
+
+    // Keep the selection if the new graph still has the same commit
+    const selectedId = this.selectedNode?.Id;
+    this.selectedNode = null;
+    this.SelectNode(selectedId === undefined ? null : this.GetNode(selectedId));
+
+    this.frameGraph();
+  }
+
+  public ClearGraph(): void {
+    this.leafNodes = [];
+    this.nodePositions = new Map<Node, Vector3>();
+    this.graph.Clear();
+    this.highlightedNodes = null;
+    this.hiddenNodes = new Set<Node>();
+    this.updateNodeColors();
+    this.playback.SetNodes([]);
+    this.dispatchEvent({ type: PLAYBACK_EVENT });
+    this.updateTimeAxisGraph();
+    this.hoveredNode = null;
+    this.tooltip.hidden = true;
+    this.SelectNode(null);
+  }
+
+  public SetLayoutEngine(layoutEngine: ILayoutEngine): void {
+    this.layoutEngine = layoutEngine;
+    if (this.leafNodes.length === 0) return;
+
+    this.nodePositions = this.layoutEngine.ComputeLayout(this.leafNodes);
+    this.graph.UpdatePositions(this.nodePositions);
+    this.updateTimeAxisGraph();
+    this.frameGraph();
+  }
+
+  public get LayoutEngine(): ILayoutEngine {
+    return this.layoutEngine;
+  }
+
+  private updateTimeAxisGraph() {
+    this.timeAxis.SetGraph(this.nodePositions);
+    this.timeAxisChanged = true;
+  }
+
+  public FocusNode(node: Node): void {
+    const position = this.nodePositions.get(node);
+    if (!position || !this.controls) return;
+
+    if (this.cameraTransition) this.finishCameraTransition();
+    const current = this.GetCameraState();
+    const offset = new Vector3().subVectors(current.Position, current.Target);
+    this.animateCamera({ Position: position.clone().add(offset), Target: position.clone(), Zoom: current.Zoom });
+  }
+
+  public FrameAll(): void {
+    this.FrameNodes(Array.from(this.nodePositions.keys()));
+  }
+
+  public FrameNodes(nodes: Node[]): void {
+    const positions = nodes.map((x) => this.nodePositions.get(x)).filter((x): x is Vector3 => x !== undefined);
+    if (positions.length === 0 || !this.controls) return;
+
+    if (this.cameraTransition) this.finishCameraTransition();
+    this.animateCamera(this.getFramingState(positions));
+  }
+
+  /** @returns Where the camera needs to be to show all of the given points, looking the same way that it does now */
+  private getFramingState(points: Vector3[]): CameraState {
+    const sphere = new Box3().setFromPoints(points).getBoundingSphere(new Sphere());
+    const radius =
+      Math.max(sphere.radius, ThreeJsDag3dEngine.FRAME_MIN_RADIUS) * ThreeJsDag3dEngine.FRAME_MARGIN;
+    const current = this.GetCameraState();
+    const offset = new Vector3().subVectors(current.Position, current.Target);
+
+    if (this.camera === this.perspectiveCamera) {
+      // Fit the sphere in whichever of the horizontal and vertical field of view is narrower
+      const verticalFov = MathUtils.degToRad(this.perspectiveCamera.fov);
+      const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * this.perspectiveCamera.aspect);
+      const distance = MathUtils.clamp(
+        radius / Math.sin(Math.min(verticalFov, horizontalFov) / 2),
+        this.settings.MinDistance,
+        this.settings.MaxDistance
+      );
+      offset.setLength(distance);
+      return { Position: sphere.center.clone().add(offset), Target: sphere.center, Zoom: current.Zoom };
+    }
+
+    const camera = this.orthographicCamera;
+    const aspect = (camera.right - camera.left) / (camera.top - camera.bottom);
+    const zoom = MathUtils.clamp(
+      (ThreeJsDag3dEngine.FRUSTUM_HEIGHT * Math.min(1, aspect)) / (2 * radius),
+      this.settings.MinZoom,
+      this.settings.MaxZoom
+    );
+    return { Position: sphere.center.clone().add(offset), Target: sphere.center, Zoom: zoom };
+  }
+
+  /** Starts moving the camera to the given state, which {@link Update} animates */
+  private animateCamera(to: CameraState) {
+    this.flyControls?.StopFollowing();
+    this.cameraAnimation = { StartTime: performance.now(), From: this.GetCameraState(), To: to };
+  }
+
+  /** @param progress How far the animation has gotten, from 0 (start) to 1 (end). Animations end at 1. */
+  private updateCameraAnimation(progress: number) {
+    const animation = this.cameraAnimation!;
+    const controls = this.controls!;
+    const t = ThreeJsDag3dEngine.EASING_FUNCTIONS[this.settings.CameraEasing](Math.min(progress, 1));
+
+    controls.target.lerpVectors(animation.From.Target, animation.To.Target, t);
+    const position = new Vector3().lerpVectors(animation.From.Position, animation.To.Position, t);
+    this.perspectiveCamera.position.copy(position);
+    this.orthographicCamera.position.copy(position);
+    if (this.camera === this.orthographicCamera) {
+      // Zoom geometrically, so that zooming in looks as fast as zooming out
+      this.orthographicCamera.zoom = animation.From.Zoom * Math.pow(animation.To.Zoom / animation.From.Zoom, t);
+      this.orthographicCamera.updateProjectionMatrix();
+    }
+    controls.update();
+
+    if (progress >= 1) this.cameraAnimation = null;
+  }
+
+  public get Playback(): IHistoryPlayback {
+    return this.playback;
+  }
+
+  public get Legend(): Legend | null {
+    return this.legend;
+  }
+
+  public get Nodes(): readonly Node[] {
+    return this.graph.Nodes;
+  }
+
+  public get NodePositions(): ReadonlyMap<Node, Vector3> {
+    return this.nodePositions;
+  }
+
+  public SetNodeFilter(highlighted: Node[] | null, hidden: Node[]): void {
+    const wasHighlighting = this.highlightedNodes !== null;
+    this.highlightedNodes = highlighted && new Set(highlighted);
+    this.hiddenNodes = new Set(hidden);
+    this.graph.SetHiddenNodes(this.hiddenNodes);
+    if (highlighted || wasHighlighting) this.graph.Nodes.forEach((x) => this.refreshNodeAppearance(x));
+    this.pointerMoved = true; // The hovered node might have been hidden
+  }
+
+  public GetNode(id: string): Node | null {
+    return this.graph.GetNode(id);
+  }
+
+  public GetRefs(): Ref[] {
+    const typeOrder = ThreeJsDag3dEngine.REF_TYPE_ORDER;
+    return this.graph.Nodes.flatMap((x) => x.Commit?.Refs ?? []).sort(
+      (a, b) => typeOrder.indexOf(a.Type) - typeOrder.indexOf(b.Type) || a.Name.localeCompare(b.Name)
+    );
+  }
+
+  public GetRefNode(name: string): Node | null {
+    return this.graph.Nodes.find((x) => x.Commit?.Refs.some((ref) => ref.Name === name)) ?? null;
+  }
+
+  public GetCameraState(): CameraState {
+    if (!this.controls)
+      return { Position: this.camera.position.clone(), Target: new Vector3(), Zoom: this.camera.zoom };
+
+    this.controls.saveState();
+    const state = this.controls.savedState;
+    return { Position: state.position, Target: state.target, Zoom: state.zoom };
+  }
+
+  public SetCameraState(state: CameraState): void {
+    if (!this.controls) return;
+
+    if (this.cameraTransition) this.finishCameraTransition();
+    this.cameraAnimation = null;
+    this.controls.saveState({ target: state.Target, position: state.Position, zoom: state.Zoom });
+    this.controls.reset();
+
+    // Keep the inactive camera in the same place, ready for the next projection change
+    this.perspectiveCamera.position.copy(state.Position);
+    this.orthographicCamera.position.copy(state.Position);
+  }
+
+  /** Centers the camera on the current graph */
+  private frameGraph() {
+    if (this.nodePositions.size === 0) return;
+
+    const center = new Box3().setFromPoints(Array.from(this.nodePositions.values())).getCenter(new Vector3());
+    this.moveCameraTarget(center);
+  }
+
+  /** Switches to fly mode and glides the camera back through the selected node's first parents, if it has any */
+  public FollowFirstParent(): void {
+    if (!this.flyControls || !this.selectedNode) return;
+
+    const path: Vector3[] = [];
+    for (let node: Node | null = this.selectedNode; node; node = node.FirstParent) {
+      const position = this.nodePositions.get(node);
+      if (position) path.push(position);
+    }
+    if (path.length < 2) return;
+
+    this.ApplySettings({ NavigationMode: "fly" });
+    this.flyControls.Follow(path);
+  }
+
+  /** Moves the point that the camera orbits around, keeping the camera's offset from it */
+  private moveCameraTarget(target: Vector3) {
+    if (!this.controls) return;
+
+    this.cameraAnimation = null;
+    const offset = new Vector3().subVectors(this.controls.camera.position, this.controls.target);
+    this.controls.target.copy(target);
+    this.perspectiveCamera.position.copy(target).add(offset);
+    this.orthographicCamera.position.copy(target).add(offset);
+    this.controls.update();
+  }
+
   public Update() {
-    this.controls?.update();
+    const now = performance.now();
+    const elapsed = Math.min(now - this.lastUpdateTime, ThreeJsDag3dEngine.MAX_FRAME_MS);
+    this.lastUpdateTime = now;
+
+    let layoutChanged = false;
+    if (isIncrementalLayoutEngine(this.layoutEngine) && this.layoutEngine.Step()) {
+      this.graph.UpdatePositions(this.nodePositions);
+      layoutChanged = true;
+    }
+
+    // Resampling the time axis is too slow to do on every layout step
+    if (!layoutChanged && this.layoutMoving) this.updateTimeAxisGraph();
+    this.layoutMoving = layoutChanged;
+
+    // Reveal commits during history playback. Also dispatch on the frame that playback stops, so listeners see it stop.
+    const growths = this.playback.Update(elapsed);
+    if (growths.size > 0) this.graph.SetNodeGrowths(growths);
+    if (growths.size > 0 || this.playback.Playing || this.playbackWasPlaying)
+      this.dispatchEvent({ type: PLAYBACK_EVENT });
+    this.playbackWasPlaying = this.playback.Playing;
+
+    let cameraChanged = false;
+    if (this.cameraTransition) {
+      const progress = (now - this.cameraTransition.StartTime) / ThreeJsDag3dEngine.CAMERA_TRANSITION_DURATION_MS;
+      if (progress < 1) this.updateCameraTransition(progress);
+      else this.finishCameraTransition();
+      cameraChanged = true;
+    } else if (this.cameraAnimation) {
+      const duration = this.settings.CameraAnimationDuration;
+      this.updateCameraAnimation(duration > 0 ? (now - this.cameraAnimation.StartTime) / duration : 1);
+      cameraChanged = true;
+    } else if (this.settings.NavigationMode === "fly" && this.flyControls) {
+      cameraChanged = this.updateFlyControls(elapsed);
+    } else cameraChanged = this.controls?.update() ?? false;
+
+    if (cameraChanged) this.dispatchEvent({ type: CAMERA_EVENT });
+
+    if (cameraChanged || this.timeAxisChanged) {
+      const target = this.controls?.target ?? new Vector3();
+      this.timeAxis.Update(this.camera, target, this.canvas.clientWidth, this.canvas.clientHeight);
+      this.timeAxisChanged = false;
+    }
+
+    // Pick at most once per frame, rather than on every pointer event
+    if (this.pointerMoved || layoutChanged || cameraChanged || growths.size > 0) {
+      this.updateHoveredNode();
+      this.pointerMoved = false;
+    }
+
+    this.renderer.render(this.scene, this.camera);
+  }
+
+  public RenderImage(options: Partial<ImageExportOptions> = {}): HTMLCanvasElement {
+    const { Scale, TransparentBackground, Title, IncludeLegend } = { ...DEFAULT_IMAGE_EXPORT_OPTIONS, ...options };
+    const screenSize = this.renderer.getDrawingBufferSize(new Vector2());
+    const maxSize = this.renderer.capabilities.maxTextureSize;
+    const scale = Math.min(Scale, maxSize / screenSize.x, maxSize / screenSize.y);
+    const width = Math.floor(screenSize.x * scale);
+    const height = Math.floor(screenSize.y * scale);
+
+    // Render offscreen at the image's size. The camera keeps its aspect ratio, so it shows the same view.
+    const renderTarget = this.renderer.capabilities.isWebGL2
+      ? new WebGLMultisampleRenderTarget(width, height) // Antialiased like the canvas
+      : new WebGLRenderTarget(width, height);
+    const clearAlpha = this.renderer.getClearAlpha();
+    if (TransparentBackground) this.renderer.setClearAlpha(0);
+    this.renderer.setRenderTarget(renderTarget);
+    this.renderer.render(this.scene, this.camera);
+    const pixels = new Uint8Array(4 * width * height);
+    this.renderer.readRenderTargetPixels(renderTarget, 0, 0, width, height, pixels);
+    this.renderer.setRenderTarget(null);
+    this.renderer.setClearAlpha(clearAlpha);
+    renderTarget.dispose();
+
+    const image = document.createElement("canvas");
+    image.width = width;
+    image.height = height;
+    const context = image.getContext("2d")!;
+    const imageData = context.createImageData(width, height);
+    const rowLength = 4 * width;
+    for (let row = 0; row < height; ++row) {
+      // WebGL rows go from the bottom up
+      const sourceRow = pixels.subarray((height - 1 - row) * rowLength, (height - row) * rowLength);
+      imageData.data.set(sourceRow, row * rowLength);
+    }
+    context.putImageData(imageData, 0, 0);
+
+    // Size overlays like the overlays on screen, relative to the canvas
+    const pixelScale = width / Math.max(this.canvas.clientWidth, 1);
+    if (Title) drawTitle(context, Title, pixelScale);
+    if (IncludeLegend && this.legend) drawLegend(context, this.legend, pixelScale);
+    return image;
+  }
+
+  public ProjectNodes(): Map<Node, Vector2> {
+    const rect = this.canvas.getBoundingClientRect();
+    const projected = new Map<Node, Vector2>();
+    const point = new Vector3();
+    this.graph.Nodes.forEach((node) => {
+      const position = this.nodePositions.get(node);
+      if (!position || this.hiddenNodes.has(node) || !this.playback.IsRevealed(node)) return;
+
+      point.copy(position).project(this.camera);
+      if (point.z < -1 || point.z > 1) return; // Behind the camera or too far away
+      projected.set(node, new Vector2(((point.x + 1) / 2) * rect.width, ((1 - point.y) / 2) * rect.height));
+    });
+    return projected;
+  }
 
-    const camera = ThreeJsDag3dEngine.USE_PERSPECTIVE
-      ? this.perspectiveCamera
-      : this.orthographicCamera;
-    this.renderer.render(this.scene, camera);
+  public ExportSceneAsync(format: SceneExportFormat): Promise<Blob> {
+    const nodes = this.graph.Nodes.filter((x) => !this.hiddenNodes.has(x) && this.playback.IsRevealed(x));
+    const style = {
+      NodeGeometry: this.nodeGeometry,
+      NodeScale: this.settings.NodeSize,
+      GetNodeColor: (node: Node) => this.nodeColors?.get(node) ?? this.nodeColor,
+      EdgeColor: this.edgeMaterial.color,
+    };
+    return exportSceneAsync(nodes, this.nodePositions, style, format);
   }
 
   public ResizeRenderArea(newWidth: number, newHeight: number) {
@@ -110,9 +988,8 @@ export class ThreeJsDag3dEngine implements IDag3dEngine {
     this.perspectiveCamera.aspect = newWidth / newHeight;
     this.perspectiveCamera.updateProjectionMatrix();
 
-    const frustumHeight = 10;
-    const halfWidth = (frustumHeight * newAspect) / 2;
-    const halfHeight = frustumHeight / 2;
+    const halfWidth = (ThreeJsDag3dEngine.FRUSTUM_HEIGHT * newAspect) / 2;
+    const halfHeight = ThreeJsDag3dEngine.FRUSTUM_HEIGHT / 2;
     this.orthographicCamera.left = -halfWidth;
     this.orthographicCamera.right = halfWidth;
     this.orthographicCamera.top = halfHeight;
@@ -120,5 +997,6 @@ export class ThreeJsDag3dEngine implements IDag3dEngine {
     this.orthographicCamera.updateProjectionMatrix();
 
     this.renderer.setSize(newWidth, newHeight, false); // Must pass false here or js sadly fights the browser
+    this.timeAxisChanged = true;
   }
 }
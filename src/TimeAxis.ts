@@ -0,0 +1,337 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Camera,
+  Color,
+  DynamicDrawUsage,
+  Group,
+  LineBasicMaterial,
+  LineSegments,
+  Vector2,
+  Vector3,
+} from "three";
+import { Node } from "./Rendering/Abstractions";
+
+/** A calendar unit that gridlines can be spaced by */
+interface CalendarUnit {
+  /** Rough length of the unit, for picking one that leaves enough room between labels */
+  ApproxMs: number;
+  /** @returns The start of the unit containing a date, in local time */
+  Floor(date: Date): Date;
+  /** @returns The start of the unit after the one starting at a date */
+  Next(date: Date): Date;
+  Format(date: Date): string;
+}
+
+interface Release {
+  Name: string;
+  Position: Vector3;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getYearsUnit(years: number): CalendarUnit {
+  return {
+    ApproxMs: years * 365.25 * DAY_MS,
+    Floor: (date) => new Date(Math.floor(date.getFullYear() / years) * years, 0, 1),
+    Next: (date) => new Date(date.getFullYear() + years, 0, 1),
+    Format: (date) => String(date.getFullYear()),
+  };
+}
+
+/**
+ * Draws calendar gridlines across the history (x) axis of a laid-out graph, with date labels and release tag markers.
+ * Dates are mapped to x positions by sampling the graph's nodes, so the axis works for time-spaced layouts (where the
+ * mapping is linear) and generation-spaced layouts (where the gridlines bunch up or spread out with commit activity).
+ * Gridlines are drawn in a plane behind the graph, and labels are HTML elements over the canvas, so they stay sharp.
+ */
+export class TimeAxis extends Group {
+  private static readonly CALENDAR_UNITS: CalendarUnit[] = [
+    {
+      ApproxMs: DAY_MS,
+      Floor: (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()),
+      Next: (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1),
+      Format: (date) => date.toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+    },
+    {
+      // Weeks start on Monday
+      ApproxMs: 7 * DAY_MS,
+      Floor: (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7)),
+      Next: (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7),
+      Format: (date) => date.toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+    },
+    {
+      ApproxMs: 30.44 * DAY_MS,
+      Floor: (date) => new Date(date.getFullYear(), date.getMonth(), 1),
+      Next: (date) => new Date(date.getFullYear(), date.getMonth() + 1, 1),
+      Format: (date) => date.toLocaleDateString(undefined, { month: "short", year: "numeric" }),
+    },
+    ...[1, 2, 5, 10, 20, 50, 100].map(getYearsUnit),
+  ];
+  /** Tags that look like version numbers, like "v1.2", "1.2.3" or "release-2.0" */
+  private static readonly RELEASE_TAG_REGEX = /^(release[-_/]?)?v?\d+(\.\d+)+/i;
+  private static readonly RELEASE_COLOR = "#ffc107"; // Bootstrap's warning color, which tag badges use too
+  private static readonly MIN_LABEL_SPACING_PX = 100;
+  private static readonly MIN_RELEASE_LABEL_SPACING_PX = 60;
+  private static readonly MAX_GRIDLINES = 200;
+  /** Distance from the graph's bounds to the ends of the gridlines, and to the plane that they're drawn in */
+  private static readonly MARGIN = 1;
+
+  private readonly labelContainer: HTMLElement;
+  /** Label elements, which are reused across updates */
+  private readonly labels: HTMLElement[] = [];
+  private readonly gridMaterial = new LineBasicMaterial();
+  private readonly gridGeometry = new BufferGeometry();
+  private readonly gridPositions = new Float32Array(6 * (TimeAxis.MAX_GRIDLINES + 1));
+  private readonly releaseMaterial = new LineBasicMaterial({ color: TimeAxis.RELEASE_COLOR });
+  private readonly releaseGeometry = new BufferGeometry();
+
+  /** X positions of the graph, in increasing order */
+  private xs: number[] = [];
+  /** Commit time at each of {@link xs}, in non-decreasing order */
+  private times: number[] = [];
+  /** Average x distance per millisecond, or 0 if the graph doesn't span any time */
+  private unitsPerMs = 0;
+  private releases: Release[] = [];
+  private bottom = 0;
+  private top = 0;
+  private back = 0;
+
+  private readonly tempVector = new Vector3();
+
+  /** @param labelContainer Element over the canvas to put labels in, which must cover the canvas exactly */
+  public constructor(labelContainer: HTMLElement) {
+    super();
+
+    this.labelContainer = labelContainer;
+
+    this.gridGeometry.setAttribute("position", new BufferAttribute(this.gridPositions, 3).setUsage(DynamicDrawUsage));
+    this.gridGeometry.setDrawRange(0, 0);
+    const grid = new LineSegments(this.gridGeometry, this.gridMaterial);
+    grid.name = "gridlines";
+    grid.frustumCulled = false;
+    this.add(grid);
+
+    this.releaseGeometry.setDrawRange(0, 0);
+    const releases = new LineSegments(this.releaseGeometry, this.releaseMaterial);
+    releases.name = "releases";
+    releases.frustumCulled = false;
+    this.add(releases);
+  }
+
+  /** Shows or hides the gridlines and labels */
+  public SetVisible(visible: boolean): void {
+    this.visible = visible;
+    this.labelContainer.hidden = !visible;
+  }
+
+  public SetColor(color: Color): void {
+    this.gridMaterial.color.copy(color);
+  }
+
+  /** Samples the dates of a laid-out graph, and finds its release tags. Call {@link Update} afterwards. */
+  public SetGraph(positions: Map<Node, Vector3>): void {
+    this.bottom = Infinity;
+    this.top = -Infinity;
+    this.back = Infinity;
+    const samples: { X: number; Time: number }[] = [];
+    this.releases = [];
+    positions.forEach((position, node) => {
+      this.bottom = Math.min(this.bottom, position.y);
+      this.top = Math.max(this.top, position.y);
+      this.back = Math.min(this.back, position.z);
+      if (!node.Commit) return;
+
+      samples.push({ X: position.x, Time: node.Commit.Committer.Date.getTime() });
+      const release = node.Commit.Refs.find((x) => x.Type === "tag" && TimeAxis.RELEASE_TAG_REGEX.test(x.Name));
+      if (release) this.releases.push({ Name: release.Name, Position: position });
+    });
+    this.bottom -= TimeAxis.MARGIN;
+    this.top += TimeAxis.MARGIN;
+    this.back -= TimeAxis.MARGIN;
+
+    // Nodes at the same x (e.g. a generation) share their median time, and times can only grow along the axis
+    samples.sort((a, b) => a.X - b.X || a.Time - b.Time);
+    this.xs = [];
+    this.times = [];
+    for (let start = 0; start < samples.length; ) {
+      let end = start + 1;
+      while (end < samples.length && samples[end].X === samples[start].X) ++end;
+      const median = samples[Math.floor((start + end) / 2)].Time;
+      this.xs.push(samples[start].X);
+      this.times.push(Math.max(median, this.times[this.times.length - 1] ?? -Infinity));
+      start = end;
+    }
+
+    const last = this.xs.length - 1;
+    const timeRange = last > 0 ? this.times[last] - this.times[0] : 0;
+    this.unitsPerMs = timeRange > 0 ? (this.xs[last] - this.xs[0]) / timeRange : 0;
+
+    // Each release gets a line from the axis up to its commit
+    const releasePositions = new Float32Array(6 * this.releases.length);
+    this.releases.forEach((release, index) => {
+      release.Position.toArray(releasePositions, 6 * index);
+      this.tempVector.set(release.Position.x, this.bottom, this.back).toArray(releasePositions, 6 * index + 3);
+    });
+    this.releaseGeometry.setAttribute("position", new BufferAttribute(releasePositions, 3));
+    this.releaseGeometry.setDrawRange(0, 2 * this.releases.length);
+  }
+
+  /**
+   * Places the gridlines and labels for the current view. Gridlines are spaced by the finest calendar unit whose labels
+   * don't crowd each other, and only cover the part of the axis near the camera's target.
+   * @param target Point that the camera looks at
+   * @param width Width of the canvas in CSS pixels
+   * @param height Height of the canvas in CSS pixels
+   */
+  public Update(camera: Camera, target: Vector3, width: number, height: number): void {
+    let labelCount = 0;
+    let gridlineCount = 0;
+    if (this.visible && this.unitsPerMs > 0) {
+      camera.updateMatrixWorld();
+      const first = this.xs[0];
+      const last = this.xs[this.xs.length - 1];
+
+      // Measure how many pixels one unit along the axis takes up near the target
+      const anchorX = Math.min(Math.max(target.x, first), last);
+      const anchor = this.toScreen(new Vector3(anchorX, this.bottom, this.back), camera, width, height);
+      const nextUnit = this.toScreen(new Vector3(anchorX + 1, this.bottom, this.back), camera, width, height);
+      const pixelsPerUnit = anchor && nextUnit ? anchor.distanceTo(nextUnit) : 0;
+
+      if (pixelsPerUnit > 0) {
+        const pixelsPerMs = pixelsPerUnit * this.unitsPerMs;
+        const unit =
+          TimeAxis.CALENDAR_UNITS.find((x) => x.ApproxMs * pixelsPerMs >= TimeAxis.MIN_LABEL_SPACING_PX) ??
+          TimeAxis.CALENDAR_UNITS[TimeAxis.CALENDAR_UNITS.length - 1];
+
+        // The axis runs the length of the graph, with gridlines across the graph
+        this.setGridline(gridlineCount++, first, this.bottom, last, this.bottom);
+        const halfRange = width / pixelsPerUnit;
+        const startTime = this.getTime(Math.max(anchorX - halfRange, first));
+        const endTime = this.getTime(Math.min(anchorX + halfRange, last));
+        for (
+          let date = unit.Floor(new Date(startTime));
+          date.getTime() <= endTime && gridlineCount <= TimeAxis.MAX_GRIDLINES;
+          date = unit.Next(date)
+        ) {
+          if (date.getTime() < startTime) continue;
+          const x = this.getX(date.getTime());
+          this.setGridline(gridlineCount++, x, this.bottom, x, this.top);
+          this.tempVector.set(x, this.bottom, this.back);
+          labelCount = this.placeLabel(labelCount, unit.Format(date), "", this.tempVector, camera, width, height);
+        }
+
+        // Label releases from left to right on screen, skipping ones that would overlap the last one labeled
+        let lastReleaseX = -Infinity;
+        this.releases
+          .map((release) => ({
+            release,
+            screen: this.toScreen(
+              this.tempVector.set(release.Position.x, this.bottom, this.back),
+              camera,
+              width,
+              height
+            ),
+          }))
+          .filter((x) => x.screen && x.screen.x >= 0 && x.screen.x <= width)
+          .sort((a, b) => a.screen!.x - b.screen!.x)
+          .forEach(({ release, screen }) => {
+            if (screen!.x - lastReleaseX < TimeAxis.MIN_RELEASE_LABEL_SPACING_PX) return;
+            lastReleaseX = screen!.x;
+            this.tempVector.set(release.Position.x, this.bottom, this.back);
+            const className = "g3d-time-axis-release";
+            labelCount = this.placeLabel(labelCount, release.Name, className, this.tempVector, camera, width, height);
+          });
+      }
+    }
+
+    this.gridGeometry.setDrawRange(0, 2 * gridlineCount);
+    this.gridGeometry.getAttribute("position").needsUpdate = true;
+    for (let index = labelCount; index < this.labels.length; ++index) this.labels[index].hidden = true;
+  }
+
+  public Dispose(): void {
+    this.gridGeometry.dispose();
+    this.gridMaterial.dispose();
+    this.releaseGeometry.dispose();
+    this.releaseMaterial.dispose();
+    this.labelContainer.remove();
+  }
+
+  /** @returns The x position of a time, extrapolating from the average scale outside of the graph */
+  private getX(time: number): number {
+    const last = this.times.length - 1;
+    if (time <= this.times[0]) return this.xs[0] - (this.times[0] - time) * this.unitsPerMs;
+    if (time >= this.times[last]) return this.xs[last] + (time - this.times[last]) * this.unitsPerMs;
+
+    const index = TimeAxis.findFirstAtLeast(this.times, time);
+    const t0 = this.times[index - 1];
+    const t1 = this.times[index];
+    return this.xs[index - 1] + ((time - t0) / (t1 - t0)) * (this.xs[index] - this.xs[index - 1]);
+  }
+
+  /** @returns The time at an x position within the graph */
+  private getTime(x: number): number {
+    const index = TimeAxis.findFirstAtLeast(this.xs, x);
+    if (index === 0) return this.times[0];
+    if (index === this.xs.length) return this.times[index - 1];
+
+    const x0 = this.xs[index - 1];
+    const x1 = this.xs[index];
+    return this.times[index - 1] + ((x - x0) / (x1 - x0)) * (this.times[index] - this.times[index - 1]);
+  }
+
+  private setGridline(index: number, x0: number, y0: number, x1: number, y1: number) {
+    this.tempVector.set(x0, y0, this.back).toArray(this.gridPositions, 6 * index);
+    this.tempVector.set(x1, y1, this.back).toArray(this.gridPositions, 6 * index + 3);
+  }
+
+  /**
+   * Shows a label below a point on the axis, if the point is on screen
+   * @returns The number of labels used so far
+   */
+  private placeLabel(
+    index: number,
+    text: string,
+    className: string,
+    point: Vector3,
+    camera: Camera,
+    width: number,
+    height: number
+  ): number {
+    const screen = this.toScreen(point, camera, width, height);
+    if (!screen || screen.x < 0 || screen.x > width || screen.y < 0 || screen.y > height) return index;
+
+    if (index >= this.labels.length) {
+      const label = document.createElement("span");
+      this.labelContainer.appendChild(label);
+      this.labels.push(label);
+    }
+    const label = this.labels[index];
+    label.className = `g3d-time-axis-label ${className}`;
+    label.textContent = text;
+    label.style.left = `${screen.x}px`;
+    label.style.top = `${screen.y}px`;
+    label.hidden = false;
+    return index + 1;
+  }
+
+  /** @returns Where a point is on the canvas in CSS pixels, or null if it is behind the camera or beyond its range */
+  private toScreen(point: Vector3, camera: Camera, width: number, height: number): Vector2 | null {
+    const projected = point.clone().project(camera);
+    if (Math.abs(projected.z) > 1) return null;
+    return new Vector2(((projected.x + 1) / 2) * width, ((1 - projected.y) / 2) * height);
+  }
+
+  /** @returns Index of the first value that is at least the given value, or the length if there is none */
+  private static findFirstAtLeast(sortedValues: number[], value: number): number {
+    let low = 0;
+    let high = sortedValues.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sortedValues[middle] < value) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+}
@@ -2,18 +2,308 @@ import "./main.scss";
 import "bootstrap/js/dist/alert";
 import "bootstrap/js/dist/collapse";
 
-import { TestNodeProvider } from "./TestNodeProvider";
-import { DomNodeRenderer } from "./Rendering";
-import { INodeRenderer, Node } from "./Rendering/Abstractions";
-import { ThreeJsDag3dEngine } from "./ThreeJsDag3dEngine";
+import {
+  CAMERA_EVENT,
+  EngineSettings,
+  LEGEND_EVENT,
+  PLAYBACK_EVENT,
+  SELECT_EVENT,
+  SETTINGS_EVENT,
+} from "./Abstractions";
+import { CommitDetailsPanel } from "./CommitDetails";
+import { createGraphSnapshot } from "./Export";
+import { SceneExportFormat } from "./Export/Abstractions";
+import { ForceDirectedLayoutEngine, HistoryAxis, LayeredLayoutEngine, PresetLayoutEngine } from "./Layout";
+import { ILayoutEngine } from "./Layout/Abstractions";
+import { LegendPanel } from "./Legend";
+import {
+  BrowserGitDirectory,
+  GitLogNodeProvider,
+  GitRepositoryNodeProvider,
+  GraphSnapshotNodeProvider,
+  TestNodeProvider,
+} from "./NodeProviders";
+import { INodeProvider } from "./NodeProviders/Abstractions";
+import { PlaybackPanel } from "./Playback";
+import { renderSvgGraph, SvgNodeRenderer } from "./Rendering";
+import { Node, SvgGraphOptions } from "./Rendering/Abstractions";
+import { filterCommits, SearchPanel } from "./Search";
+import { CommitFilter, CommitFilterResult, DEFAULT_COMMIT_FILTER } from "./Search/Abstractions";
+import {
+  DEFAULT_SETTINGS,
+  LocalSettingsStorage,
+  SETTINGS_CHANGE_EVENT,
+  SETTINGS_SCHEMA,
+  SettingsForm,
+  SettingsStore,
+  ViewState,
+  viewStateFromHash,
+  viewStateToHash,
+} from "./Settings";
+import { LayoutName, Settings } from "./Settings/Abstractions";
+import { ThreeJsDag3dEngine, WebGLUnavailableError } from "./ThreeJsDag3dEngine";
+
+/** How long the view must stay still before the URL is updated, so that the URL isn't rewritten every frame */
+const HASH_UPDATE_DELAY_MS = 500;
+/** How strongly the force-directed layout pulls commits toward their commit time, when spacing commits by time */
+const TIME_AXIS_STRENGTH = 0.1;
 
 document.addEventListener("DOMContentLoaded", async (e) => {
   const canvas = document.getElementsByTagName("canvas")[0];
   if (!canvas) return;
 
-  const dag3dEngine = new ThreeJsDag3dEngine(canvas);
+  // Remember the user's own settings. Settings from the URL (e.g. from a shared link) take precedence over them,
+  // but are only applied through setViewSettings, so they aren't saved as the user's own.
+  const settingsStorage = new LocalSettingsStorage();
+  const ownSettings: Settings = { ...DEFAULT_SETTINGS, ...settingsStorage.Load() };
+  const settings = new SettingsStore(ownSettings);
+  let applyingViewSettings = false;
+  settings.addEventListener(SETTINGS_CHANGE_EVENT, (e) => {
+    if (applyingViewSettings) return;
+    Object.assign(ownSettings, e.settings);
+    settingsStorage.Save(ownSettings);
+  });
+  const setViewSettings = (viewSettings: Partial<Settings>) => {
+    applyingViewSettings = true;
+    settings.Set(viewSettings);
+    applyingViewSettings = false;
+  };
+  const initialViewState = viewStateFromHash(window.location.hash);
+  setViewSettings(initialViewState.Settings);
+
+  // Bind the Options menu forms to the settings (both ways)
+  Object.keys(SETTINGS_SCHEMA).forEach((formName) => {
+    const form = document.forms.namedItem(formName);
+    if (form) new SettingsForm(form, SETTINGS_SCHEMA[formName], settings);
+  });
+
+  let dag3dEngine: ThreeJsDag3dEngine;
+  try {
+    dag3dEngine = new ThreeJsDag3dEngine(canvas, settings.Values);
+  } catch (error) {
+    if (!(error instanceof WebGLUnavailableError)) throw error;
+    await showFallbackViewAsync(canvas, settings);
+    return;
+  }
   await dag3dEngine.InitializeAsync();
 
+  const layeredLayoutEngine = new LayeredLayoutEngine();
+  const forceLayoutEngine = new ForceDirectedLayoutEngine();
+  const layoutEngines: { [name in LayoutName]: ILayoutEngine } = {
+    layered: layeredLayoutEngine,
+    force: forceLayoutEngine,
+  };
+  const setHistoryAxis = (historyAxis: HistoryAxis) => {
+    layeredLayoutEngine.Options.HistoryAxis = historyAxis;
+    forceLayoutEngine.Options.TimeAxisStrength = historyAxis === "time" ? TIME_AXIS_STRENGTH : 0;
+  };
+  setHistoryAxis(settings.Values.HistoryAxis);
+  dag3dEngine.SetLayoutEngine(layoutEngines[settings.Values.Layout]);
+
+  await openGraphAsync(() => Promise.resolve(getInitialNodeProvider()), loadGraphAsync);
+
+  // Show the selected commit's details. Following a parent/child link also moves the camera to that commit.
+  const commitDetailsElem = document.getElementsByClassName("js-commit-details")[0] as HTMLElement | undefined;
+  if (commitDetailsElem) {
+    const commitDetailsPanel = new CommitDetailsPanel(commitDetailsElem, (node) => {
+      dag3dEngine.SelectNode(node);
+      if (node) dag3dEngine.FocusNode(node);
+    });
+    dag3dEngine.addEventListener(SELECT_EVENT, (e) => commitDetailsPanel.Show(e.node));
+  }
+
+  // Explain the colors of the color mode
+  const legendElem = document.getElementsByClassName("js-legend")[0] as HTMLElement | undefined;
+  if (legendElem) {
+    const legendPanel = new LegendPanel(legendElem);
+    legendPanel.Show(dag3dEngine.Legend);
+    dag3dEngine.addEventListener(LEGEND_EVENT, (e) => legendPanel.Show(e.legend));
+  }
+
+  // Replay how the history grew
+  const playbackElem = document.getElementsByClassName("js-playback")[0] as HTMLElement | undefined;
+  if (playbackElem) {
+    const playbackPanel = new PlaybackPanel(playbackElem, dag3dEngine.Playback);
+    dag3dEngine.addEventListener(PLAYBACK_EVENT, () => playbackPanel.Refresh());
+  }
+
+  // Load a .git directory, git log dump or graph snapshot that is dropped or opened from the Repository options form
+  const showOpenedGraphAsync = async (nodeProvider: INodeProvider) => {
+    await loadGraphAsync(nodeProvider);
+    applyFilter(commitFilter);
+  };
+  bindGraphDrop(canvas, showOpenedGraphAsync);
+  bindRepoForm(showOpenedGraphAsync);
+
+  /** Shows a new graph. If its commits can't be read, then this throws and the current graph is left in place. */
+  async function loadGraphAsync(nodeProvider: INodeProvider) {
+    const leafNodes = await nodeProvider.GetLeafNodes();
+
+    // Show snapshots laid out the way they were saved. Clear the old graph first, so that it isn't laid out again.
+    const layoutEngine =
+      nodeProvider instanceof GraphSnapshotNodeProvider && nodeProvider.Positions.size > 0
+        ? new PresetLayoutEngine(nodeProvider.Positions, layoutEngines[settings.Values.Layout])
+        : layoutEngines[settings.Values.Layout];
+    if (layoutEngine !== dag3dEngine.LayoutEngine) {
+      dag3dEngine.ClearGraph();
+      dag3dEngine.SetLayoutEngine(layoutEngine);
+    }
+    dag3dEngine.LoadGraph(leafNodes);
+    updateRefList();
+  }
+
+  // Camera commands in the navbar. Going to a ref selects its commit too, so that its details are shown.
+  const goToNode = (node: Node | null) => {
+    if (!node) return;
+    dag3dEngine.SelectNode(node);
+    dag3dEngine.FocusNode(node);
+  };
+  const goToRefForm = document.getElementsByClassName("js-go-to-ref")[0] as HTMLFormElement | undefined;
+  goToRefForm?.addEventListener("submit", (e) => {
+    e.preventDefault();
+    const refInput = goToRefForm.elements.namedItem("ref") as HTMLInputElement;
+    goToNode(dag3dEngine.GetRefNode(refInput.value.trim()));
+  });
+  document.getElementsByClassName("js-go-to-head")[0]?.addEventListener("click", () =>
+    goToNode(dag3dEngine.GetRefNode("HEAD"))
+  );
+  document.getElementsByClassName("js-frame-selection")[0]?.addEventListener("click", () => {
+    if (dag3dEngine.SelectedNode) dag3dEngine.FrameNodes([dag3dEngine.SelectedNode]);
+  });
+  document.getElementsByClassName("js-frame-all")[0]?.addEventListener("click", () => dag3dEngine.FrameAll());
+
+  /** Suggests the current graph's refs in the navbar's "go to" input */
+  function updateRefList() {
+    const refList = document.getElementsByClassName("js-ref-list")[0];
+    if (!refList) return;
+
+    refList.textContent = "";
+    dag3dEngine.GetRefs().forEach((ref) => {
+      const option = document.createElement("option");
+      option.value = ref.Name;
+      refList.appendChild(option);
+    });
+  }
+
+  // Apply the settings to the engine (both ways)
+  settings.addEventListener(SETTINGS_CHANGE_EVENT, (e) => {
+    const { Layout, HistoryAxis, ...engineSettings }: Partial<Settings> = e.settings;
+    if (HistoryAxis) setHistoryAxis(HistoryAxis);
+    if (Layout || HistoryAxis) dag3dEngine.SetLayoutEngine(layoutEngines[settings.Values.Layout]);
+    dag3dEngine.ApplySettings(engineSettings);
+  });
+  dag3dEngine.addEventListener(SETTINGS_EVENT, (e) => settings.Set(e.settings as Partial<EngineSettings>));
+
+  // Keep the URL up to date with the current view, so that it can be shared
+  let hashUpdateTimeout = 0;
+  let currentHash = window.location.hash;
+  const scheduleHashUpdate = () => {
+    window.clearTimeout(hashUpdateTimeout);
+    hashUpdateTimeout = window.setTimeout(() => {
+      currentHash = viewStateToHash({
+        Camera: dag3dEngine.GetCameraState(),
+        SelectedId: dag3dEngine.SelectedNode?.Id ?? null,
+        Settings: settings.Values,
+        Filter: commitFilter,
+      });
+      window.history.replaceState(null, "", currentHash || window.location.pathname + window.location.search);
+    }, HASH_UPDATE_DELAY_MS);
+  };
+  settings.addEventListener(SETTINGS_CHANGE_EVENT, scheduleHashUpdate);
+  dag3dEngine.addEventListener(SELECT_EVENT, scheduleHashUpdate);
+  dag3dEngine.addEventListener(CAMERA_EVENT, scheduleHashUpdate);
+
+  // Search for commits. Matches are highlighted, and stepping through them selects each one and moves the camera to it.
+  let commitFilter: CommitFilter = DEFAULT_COMMIT_FILTER;
+  let filterResult: CommitFilterResult = { Matches: null, Hidden: [] };
+  let matchIndex = -1;
+  const searchForm = document.forms.namedItem("search");
+  const searchPanel = searchForm
+    ? new SearchPanel(searchForm, (filter) => applyFilter(filter), (step) => stepToMatch(step))
+    : null;
+
+  function applyFilter(filter: CommitFilter) {
+    commitFilter = filter;
+    filterResult = filterCommits(dag3dEngine.Nodes, filter);
+    matchIndex = -1;
+    dag3dEngine.SetNodeFilter(filterResult.Matches, filterResult.Hidden);
+    searchPanel?.ShowResults(filterResult.Matches?.length ?? null, matchIndex);
+    scheduleHashUpdate();
+  }
+
+  function stepToMatch(step: number) {
+    const matches = filterResult.Matches;
+    if (!matches || matches.length === 0) return;
+
+    // Stepping back from before the first match goes to the last match
+    matchIndex =
+      matchIndex < 0 && step < 0 ? matches.length - 1 : (matchIndex + step + matches.length) % matches.length;
+    goToNode(matches[matchIndex]);
+    searchPanel?.ShowResults(matches.length, matchIndex);
+  }
+
+  window.addEventListener("hashchange", () => {
+    if (window.location.hash !== currentHash) applyViewState(viewStateFromHash(window.location.hash));
+  });
+  applyViewState(initialViewState);
+
+  function applyViewState(viewState: ViewState) {
+    setViewSettings(viewState.Settings);
+
+    const filter = { ...DEFAULT_COMMIT_FILTER, ...viewState.Filter };
+    searchPanel?.SetFilter(filter);
+    applyFilter(filter);
+
+    if (viewState.Camera) dag3dEngine.SetCameraState(viewState.Camera);
+    const selectedNode = viewState.SelectedId ? dag3dEngine.GetNode(viewState.SelectedId) : null;
+    if (selectedNode) dag3dEngine.SelectNode(selectedNode);
+  }
+
+  // Save an image of the current view from the navbar, the Export options form or a keyboard shortcut
+  const saveImage = () => {
+    const { ImageScale, ImageTransparentBackground, ImageTitle, ImageIncludeLegend } = settings.Values;
+    const image = dag3dEngine.RenderImage({
+      Scale: ImageScale,
+      TransparentBackground: ImageTransparentBackground,
+      Title: ImageTitle,
+      IncludeLegend: ImageIncludeLegend,
+    });
+    image.toBlob((blob) => blob && downloadBlob(blob, `${ImageTitle.trim() || "git3d"}.png`), "image/png");
+  };
+  document.getElementsByClassName("js-save-image")[0]?.addEventListener("click", saveImage);
+  document.getElementById("export-save-image")?.addEventListener("click", saveImage);
+  window.addEventListener("keydown", (e) => {
+    // Leave browser shortcuts (like Ctrl+I) alone
+    const target = e.target as HTMLElement | null;
+    if (e.code !== settings.Values.SaveImageKey || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (target && ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+    e.preventDefault();
+    saveImage();
+  });
+
+  // Save the laid-out graph from the Export options form: in 2D as seen from the camera, as a 3D scene for other tools,
+  // or as a snapshot to load later
+  const saveScene = async (format: SceneExportFormat) =>
+    downloadBlob(await dag3dEngine.ExportSceneAsync(format), `git3d.${format}`);
+  document.getElementById("export-save-svg")?.addEventListener("click", () => {
+    const svg = renderSvgGraph(dag3dEngine.Nodes, dag3dEngine.ProjectNodes(), getSvgGraphOptions(settings.Values));
+    downloadBlob(new Blob([svg], { type: "image/svg+xml" }), "git3d.svg");
+  });
+  document.getElementById("export-save-scene-glb")?.addEventListener("click", () => saveScene("glb"));
+  document.getElementById("export-save-scene-gltf")?.addEventListener("click", () => saveScene("gltf"));
+  document.getElementById("export-save-snapshot")?.addEventListener("click", () => {
+    const snapshot = createGraphSnapshot(dag3dEngine.Nodes, dag3dEngine.NodePositions);
+    downloadBlob(new Blob([JSON.stringify(snapshot)], { type: "application/json" }), "git3d.json");
+  });
+
+  // Control the force-directed layout from the Display options form
+  document.getElementById("display-pause-layout")?.addEventListener("click", () =>
+    (forceLayoutEngine.Paused = !forceLayoutEngine.Paused)
+  );
+  document.getElementById("display-reheat-layout")?.addEventListener("click", () =>
+    forceLayoutEngine.Reheat()
+  );
+
   function animate() {
     requestAnimationFrame(animate);
 
@@ -28,10 +318,170 @@ document.addEventListener("DOMContentLoaded", async (e) => {
   animate();
 });
 
-async function loadNodes() {
-  const nodeProvider = new TestNodeProvider();
-  const nodeRenderer: INodeRenderer = new DomNodeRenderer();
+/**
+ * Shows the graph in 2D instead, for browsers without WebGL.
+ * Commits can still be inspected, graphs dropped in and saved as an SVG, and the colors changed in the Options menu.
+ */
+async function showFallbackViewAsync(canvas: HTMLCanvasElement, settings: SettingsStore) {
+  const view = document.createElement("div");
+  view.className = "g3d-svg-view h-100 w-100";
+  canvas.replaceWith(view);
+  // These need the 3D view
+  document.getElementsByClassName("js-playback")[0]?.classList.add("d-none");
+  document.forms.namedItem("search")?.classList.add("d-none");
+
+  // The view is flat, so every lane goes in one plane
+  const layoutEngine = new LayeredLayoutEngine({ LanesPerPlane: Infinity, HistoryAxis: settings.Values.HistoryAxis });
+  const renderer = new SvgNodeRenderer(view, layoutEngine, getSvgGraphOptions(settings.Values), selectNode);
+  const commitDetailsElem = document.getElementsByClassName("js-commit-details")[0] as HTMLElement | undefined;
+  const commitDetailsPanel = commitDetailsElem && new CommitDetailsPanel(commitDetailsElem, selectNode);
+  const legendElem = document.getElementsByClassName("js-legend")[0] as HTMLElement | undefined;
+  const legendPanel = legendElem && new LegendPanel(legendElem);
+
+  function selectNode(node: Node | null) {
+    renderer.SelectNode(node);
+    commitDetailsPanel?.Show(node);
+  }
+  async function render(nodeProvider: INodeProvider) {
+    await renderer.RenderNodes(await nodeProvider.GetLeafNodes());
+    selectNode(renderer.SelectedNode);
+    legendPanel?.Show(renderer.Legend);
+  }
+  await openGraphAsync(() => Promise.resolve(getInitialNodeProvider()), render);
+
+  bindGraphDrop(view, render);
+  bindRepoForm(render);
+  settings.addEventListener(SETTINGS_CHANGE_EVENT, (e) => {
+    const { HistoryAxis }: Partial<Settings> = e.settings;
+    if (HistoryAxis) {
+      layoutEngine.Options.HistoryAxis = HistoryAxis;
+      renderer.SetLayoutEngine(layoutEngine);
+    }
+    renderer.SetOptions(getSvgGraphOptions(settings.Values));
+    legendPanel?.Show(renderer.Legend);
+  });
+  document.getElementById("export-save-svg")?.addEventListener("click", () =>
+    downloadBlob(new Blob([renderer.ToSvg()], { type: "image/svg+xml" }), "git3d.svg")
+  );
+}
+
+/** @returns A node provider for the graph snapshot embedded in the page (e.g. by the snapshot tool), or a test graph */
+function getInitialNodeProvider(): INodeProvider {
+  const snapshotElem = document.getElementsByClassName("js-graph-snapshot")[0];
+  return snapshotElem ? new GraphSnapshotNodeProvider(snapshotElem.textContent ?? "") : new TestNodeProvider();
+}
+
+/**
+ * Loads the .git directories, git log dumps and graph snapshots that are dropped on an element.
+ * Graphs that can't be loaded (e.g. malformed dumps) are reported in an alert.
+ * @param loadAsync Shows the dropped graph, throwing if its commits can't be read
+ */
+function bindGraphDrop(element: HTMLElement, loadAsync: (nodeProvider: INodeProvider) => Promise<void>) {
+  element.addEventListener("dragover", (e) => e.preventDefault());
+  element.addEventListener("drop", (e) => {
+    e.preventDefault();
+    const dataTransfer = e.dataTransfer;
+    if (dataTransfer && dataTransfer.items.length > 0)
+      openGraphAsync(() => readDroppedGraphAsync(dataTransfer), loadAsync);
+  });
+}
+
+/**
+ * Loads the graphs that are opened from the Repository options form: the .git directory of a picked folder,
+ * an uploaded git log dump or graph snapshot, or a pasted git log dump.
+ * Graphs that can't be loaded (e.g. malformed dumps) are reported in an alert.
+ * @param loadAsync Shows the opened graph, throwing if its commits can't be read
+ */
+function bindRepoForm(loadAsync: (nodeProvider: INodeProvider) => Promise<void>) {
+  const directoryInput = document.getElementById("repo-open-directory") as HTMLInputElement | null;
+  directoryInput?.addEventListener("change", () => {
+    const files = Array.from(directoryInput.files ?? []);
+    directoryInput.value = ""; // So that picking the same folder again reloads it
+    if (files.length > 0)
+      openGraphAsync(
+        () => Promise.resolve(new GitRepositoryNodeProvider(BrowserGitDirectory.FromFiles(files))),
+        loadAsync
+      );
+  });
+
+  const logInput = document.getElementById("repo-open-log") as HTMLInputElement | null;
+  logInput?.addEventListener("change", () => {
+    const file = logInput.files?.[0];
+    logInput.value = ""; // So that opening the same file again reloads it
+    if (file) openGraphAsync(() => file.text().then(nodeProviderFromText), loadAsync);
+  });
+
+  const pastedLogInput = document.getElementById("repo-pasted-log") as HTMLTextAreaElement | null;
+  document.getElementById("repo-load-pasted-log")?.addEventListener("click", () => {
+    const text = pastedLogInput?.value.trim();
+    if (text) openGraphAsync(() => Promise.resolve(new GitLogNodeProvider(text)), loadAsync);
+  });
+}
+
+/** Loads a graph that the user opened, reporting why in an alert if it can't be loaded (e.g. a malformed dump) */
+async function openGraphAsync(
+  readAsync: () => Promise<INodeProvider>,
+  loadAsync: (nodeProvider: INodeProvider) => Promise<void>
+) {
+  try {
+    await loadAsync(await readAsync());
+  } catch (error) {
+    showErrorAlert(`The graph couldn't be loaded. ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** Shows a dismissible error message in the alerts above the navbar */
+function showErrorAlert(message: string) {
+  const alertsElem = document.getElementsByClassName("js-alerts")[0];
+  if (!alertsElem) return;
+
+  const alert = document.createElement("div");
+  alert.className = "alert alert-danger alert-dismissible mb-0 fade show";
+  alert.setAttribute("role", "alert");
+  alert.textContent = message;
+  const closeButton = document.createElement("button");
+  closeButton.type = "button";
+  closeButton.className = "btn-close";
+  closeButton.setAttribute("data-bs-dismiss", "alert");
+  closeButton.setAttribute("aria-label", "Close");
+  alert.appendChild(closeButton);
+  alertsElem.appendChild(alert);
+}
+
+/** @returns A node provider for a dropped .git directory, git log dump or graph snapshot */
+function readDroppedGraphAsync(dataTransfer: DataTransfer): Promise<INodeProvider> {
+  // The drop's data is gone once the drop handler awaits, so read it before awaiting anything
+  const entry = dataTransfer.items[0].webkitGetAsEntry();
+  if (entry?.isDirectory)
+    return BrowserGitDirectory.FromDataTransferAsync(dataTransfer).then((x) => new GitRepositoryNodeProvider(x));
+  return dataTransfer.files[0].text().then(nodeProviderFromText);
+}
+
+/** @returns A node provider for the text of a git log dump or graph snapshot file */
+function nodeProviderFromText(text: string): INodeProvider {
+  return GraphSnapshotNodeProvider.IsSnapshot(text)
+    ? new GraphSnapshotNodeProvider(text)
+    : new GitLogNodeProvider(text);
+}
+
+/** @returns How to draw SVGs of the graph: like the 3D view, with the background and legend of saved images */
+function getSvgGraphOptions(settings: Settings): Partial<SvgGraphOptions> {
+  return {
+    NodeColor: settings.NodeColor,
+    EdgeColor: settings.EdgeColor,
+    ColorMode: settings.ColorMode,
+    ColorPalette: settings.ColorPalette,
+    BackgroundColor: settings.BackgroundColor,
+    TransparentBackground: settings.ImageTransparentBackground,
+    IncludeLegend: settings.ImageIncludeLegend,
+  };
+}
 
-  const leafNodes: Node[] = await nodeProvider.GetLeafNodes();
-  await nodeRenderer.RenderNodes(leafNodes);
+/** Saves a blob through the browser's downloads */
+function downloadBlob(blob: Blob, fileName: string) {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName.replace(/[\\/:*?"<>|]/g, "-"); // Characters that file systems don't allow
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(link.href)); // Revoking right away can cancel the download
 }